@@ -1,5 +1,5 @@
 pragma solidity ^0.8.24;
-import { FHE, euint32, ebool } from "@fhevm/solidity/lib/FHE.sol";
+import { FHE, euint32, externalEuint32, ebool } from "@fhevm/solidity/lib/FHE.sol";
 import { SepoliaConfig } from "@fhevm/solidity/config/ZamaConfig.sol";
 
 contract DeedRegistryFHE is SepoliaConfig {
@@ -16,6 +16,8 @@ contract DeedRegistryFHE is SepoliaConfig {
     uint256 public currentBatchId;
     mapping(uint256 => bool) public batchClosed;
     mapping(uint256 => uint256) public batchPropertyCount;
+    // Upper bound on the entries returned by one getDeedPage call
+    uint256 public constant MAX_DEED_PAGE_SIZE = 200;
 
     struct EncryptedDeed {
         euint32 encryptedOwnerIdentity;
@@ -25,6 +27,7 @@ contract DeedRegistryFHE is SepoliaConfig {
         euint32 encryptedPropertyValue;
     }
     mapping(uint256 => mapping(uint256 => EncryptedDeed)) public deeds; // batchId => deedIndex => EncryptedDeed
+    mapping(uint256 => mapping(uint256 => address)) public deedRegistrar; // batchId => deedIndex => provider
 
     struct DecryptionContext {
         uint256 batchId;
@@ -42,6 +45,13 @@ contract DeedRegistryFHE is SepoliaConfig {
     event BatchOpened(uint256 indexed batchId);
     event BatchClosed(uint256 indexed batchId);
     event DeedRegistered(address indexed provider, uint256 indexed batchId, uint256 indexed deedIndex);
+    // Does not name the sender: on the owner path that is the owner's wallet, and the event is
+    // emitted even when the ownership claim fails. `byRegistrar` only says which path ran; the
+    // deed's registrar is already public from DeedRegistered.
+    event DeedTransferred(uint256 indexed batchId, uint256 indexed deedIndex, bool byRegistrar);
+    // Does not name the grantee, so logs cannot be filtered by it. The grantee is still public:
+    // it is in the transferDeed calldata and in the ACL's own events.
+    event DeedAccessGranted(uint256 indexed batchId, uint256 indexed deedIndex, address indexed grantedBy);
     event DecryptionRequested(uint256 indexed requestId, uint256 indexed batchId);
     event DecryptionCompleted(uint256 indexed requestId, uint256 indexed batchId, uint256 propertyValueSum);
 
@@ -55,6 +65,8 @@ contract DeedRegistryFHE is SepoliaConfig {
     error StateMismatch();
     error InvalidProof();
     error NotInitialized();
+    error DeedNotFound();
+    error RecipientNotAllowed();
 
     modifier onlyOwner() {
         if (msg.sender != owner) revert NotOwner();
@@ -130,36 +142,105 @@ contract DeedRegistryFHE is SepoliaConfig {
     }
 
     function registerDeed(
-        euint32 encryptedOwnerIdentity,
-        euint32 encryptedPropertyId,
-        euint32 encryptedTransactionCount,
-        euint32 encryptedLastTransactionTimestamp,
-        euint32 encryptedPropertyValue
+        externalEuint32 encryptedOwnerIdentity,
+        externalEuint32 encryptedPropertyId,
+        externalEuint32 encryptedTransactionCount,
+        externalEuint32 encryptedLastTransactionTimestamp,
+        externalEuint32 encryptedPropertyValue,
+        bytes calldata inputProof
     ) external onlyProvider whenNotPaused respectCooldown {
-        _initIfNeeded(encryptedOwnerIdentity);
-        _initIfNeeded(encryptedPropertyId);
-        _initIfNeeded(encryptedTransactionCount);
-        _initIfNeeded(encryptedLastTransactionTimestamp);
-        _initIfNeeded(encryptedPropertyValue);
-
         if (currentBatchId == 0 || batchClosed[currentBatchId]) {
             revert BatchClosedOrInvalid();
         }
 
-        uint256 deedIndex = batchPropertyCount[currentBatchId]++;
-        deeds[currentBatchId][deedIndex] = EncryptedDeed(
-            encryptedOwnerIdentity,
-            encryptedPropertyId,
-            encryptedTransactionCount,
-            encryptedLastTransactionTimestamp,
-            encryptedPropertyValue
+        EncryptedDeed memory deed = EncryptedDeed(
+            FHE.fromExternal(encryptedOwnerIdentity, inputProof),
+            FHE.fromExternal(encryptedPropertyId, inputProof),
+            FHE.fromExternal(encryptedTransactionCount, inputProof),
+            FHE.fromExternal(encryptedLastTransactionTimestamp, inputProof),
+            FHE.fromExternal(encryptedPropertyValue, inputProof)
         );
 
+        _initIfNeeded(deed.encryptedOwnerIdentity);
+        _initIfNeeded(deed.encryptedPropertyId);
+        _initIfNeeded(deed.encryptedTransactionCount);
+        _initIfNeeded(deed.encryptedLastTransactionTimestamp);
+        _initIfNeeded(deed.encryptedPropertyValue);
+
+        _allowDeed(deed, msg.sender);
+
+        uint256 deedIndex = batchPropertyCount[currentBatchId]++;
+        deeds[currentBatchId][deedIndex] = deed;
+        deedRegistrar[currentBatchId][deedIndex] = msg.sender;
+
         lastSubmissionTime[msg.sender] = block.timestamp;
         emit DeedRegistered(msg.sender, currentBatchId, deedIndex);
     }
 
-    function requestBatchValueSumDecryption(uint256 batchId) external whenNotPaused respectCooldown {
+    // The deed's registrar, while still a provider, may transfer it directly; anyone else must
+    // supply the current owner identity encrypted. A wrong claim cannot revert without revealing
+    // the owner, so the update is applied through FHE.select and leaves the deed unchanged instead.
+    // Only the registrar can name a `recipient`: an owner's claim is unproven when the
+    // transaction runs, so granting on it could hand a wrong claimant the deed's values.
+    function transferDeed(
+        uint256 batchId,
+        uint256 deedIndex,
+        externalEuint32 encryptedCurrentOwner,
+        externalEuint32 encryptedNewOwner,
+        bytes calldata inputProof,
+        address recipient
+    ) external whenNotPaused {
+        if (batchId == 0 || batchId > currentBatchId || deedIndex >= batchPropertyCount[batchId]) {
+            revert DeedNotFound();
+        }
+
+        bool isRegistrar = deedRegistrar[batchId][deedIndex] == msg.sender && providers[msg.sender];
+        if (!isRegistrar && recipient != address(0)) {
+            revert RecipientNotAllowed();
+        }
+
+        EncryptedDeed storage deed = deeds[batchId][deedIndex];
+        euint32 newOwner = FHE.fromExternal(encryptedNewOwner, inputProof);
+        _initIfNeeded(newOwner);
+
+        ebool authorized;
+        if (isRegistrar) {
+            authorized = FHE.asEbool(true);
+        } else {
+            euint32 claimedOwner = FHE.fromExternal(encryptedCurrentOwner, inputProof);
+            _initIfNeeded(claimedOwner);
+            authorized = FHE.eq(claimedOwner, deed.encryptedOwnerIdentity);
+        }
+
+        deed.encryptedOwnerIdentity = FHE.select(authorized, newOwner, deed.encryptedOwnerIdentity);
+        deed.encryptedTransactionCount = FHE.select(
+            authorized,
+            FHE.add(deed.encryptedTransactionCount, 1),
+            deed.encryptedTransactionCount
+        );
+        deed.encryptedLastTransactionTimestamp = FHE.select(
+            authorized,
+            FHE.asEuint32(uint32(block.timestamp)),
+            deed.encryptedLastTransactionTimestamp
+        );
+
+        // Security: only accounts that could already read the deed are granted the new handles.
+        // An unproven caller gets nothing, or a failed claim would hand them the current values.
+        EncryptedDeed memory updated = deed;
+        _allowDeed(updated, deedRegistrar[batchId][deedIndex]);
+        if (isRegistrar) {
+            _allowDeed(updated, msg.sender);
+            if (recipient != address(0)) {
+                _allowDeed(updated, recipient);
+                emit DeedAccessGranted(batchId, deedIndex, msg.sender);
+            }
+        }
+
+        emit DeedTransferred(batchId, deedIndex, isRegistrar);
+    }
+
+    // Publishing a batch's total is a registry decision, so only the owner may request it
+    function requestBatchValueSumDecryption(uint256 batchId) external onlyOwner whenNotPaused respectCooldown {
         if (batchId == 0 || batchId > currentBatchId || !batchClosed[batchId]) {
             revert InvalidBatchId();
         }
@@ -212,14 +293,21 @@ contract DeedRegistryFHE is SepoliaConfig {
             revert StateMismatch();
         }
 
-        // Security: Proof verification ensures the cleartexts are authentic and correctly decrypted by the FHEVM network.
-        if (!FHE.checkSignatures(requestId, cleartexts, proof)) {
+        // Cleartexts are ABI-encoded as one 32-byte word per requested handle.
+        if (cleartexts.length != numDeeds * 32) {
             revert InvalidProof();
         }
 
+        // Security: Proof verification ensures the cleartexts are authentic and correctly decrypted by the FHEVM network.
+        FHE.checkSignatures(requestId, cleartexts, proof);
+
         uint256 totalValue = 0;
         for (uint256 i = 0; i < numDeeds; ) {
-            totalValue += abi.decode(cleartexts, (uint32)[i];
+            uint256 word;
+            assembly {
+                word := mload(add(cleartexts, add(32, mul(i, 32))))
+            }
+            totalValue += uint32(word);
             unchecked {
                 i++;
             }
@@ -229,10 +317,55 @@ contract DeedRegistryFHE is SepoliaConfig {
         emit DecryptionCompleted(requestId, batchId, totalValue);
     }
 
-    function _hashCiphertexts(bytes32[] memory cts) internal pure returns (bytes32) {
+    // Deeds [offset, offset + limit) of a batch with their registrars, so clients can page
+    // through large batches instead of calling `deeds` once per entry. The range is clamped
+    // to the batch and to MAX_DEED_PAGE_SIZE; `total` is the batch's deed count.
+    function getDeedPage(
+        uint256 batchId,
+        uint256 offset,
+        uint256 limit
+    ) external view returns (EncryptedDeed[] memory page, address[] memory registrars, uint256 total) {
+        if (batchId == 0 || batchId > currentBatchId) {
+            revert InvalidBatchId();
+        }
+        total = batchPropertyCount[batchId];
+        if (limit > MAX_DEED_PAGE_SIZE) {
+            limit = MAX_DEED_PAGE_SIZE;
+        }
+        uint256 count = offset >= total ? 0 : total - offset;
+        if (count > limit) {
+            count = limit;
+        }
+
+        page = new EncryptedDeed[](count);
+        registrars = new address[](count);
+        for (uint256 i = 0; i < count; ) {
+            page[i] = deeds[batchId][offset + i];
+            registrars[i] = deedRegistrar[batchId][offset + i];
+            unchecked {
+                i++;
+            }
+        }
+    }
+
+    function _hashCiphertexts(bytes32[] memory cts) internal view returns (bytes32) {
         return keccak256(abi.encode(cts, address(this)));
     }
 
+    function _allowDeed(EncryptedDeed memory deed, address account) internal {
+        FHE.allowThis(deed.encryptedOwnerIdentity);
+        FHE.allowThis(deed.encryptedPropertyId);
+        FHE.allowThis(deed.encryptedTransactionCount);
+        FHE.allowThis(deed.encryptedLastTransactionTimestamp);
+        FHE.allowThis(deed.encryptedPropertyValue);
+
+        FHE.allow(deed.encryptedOwnerIdentity, account);
+        FHE.allow(deed.encryptedPropertyId, account);
+        FHE.allow(deed.encryptedTransactionCount, account);
+        FHE.allow(deed.encryptedLastTransactionTimestamp, account);
+        FHE.allow(deed.encryptedPropertyValue, account);
+    }
+
     function _initIfNeeded(euint32 val) internal {
         if (!val.isInitialized()) {
             revert NotInitialized();
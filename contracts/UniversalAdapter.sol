@@ -0,0 +1,42 @@
+// SPDX-License-Identifier: BSD-3-Clause-Clear
+pragma solidity ^0.8.24;
+
+contract UniversalAdapter {
+    mapping(string => bytes) private data;
+    mapping(string => uint256) public dataVersion;
+
+    event DataStored(address indexed sender, string key, bytes value);
+
+    error VersionMismatch(string key, uint256 expectedVersion, uint256 currentVersion);
+
+    function isAvailable() external pure returns (bool) {
+        return true;
+    }
+
+    function getData(string calldata key) external view returns (bytes memory) {
+        return data[key];
+    }
+
+    function getDataWithVersion(string calldata key) external view returns (bytes memory value, uint256 version) {
+        return (data[key], dataVersion[key]);
+    }
+
+    function setData(string calldata key, bytes calldata value) external {
+        _store(key, value);
+    }
+
+    // Compare-and-set: the write only lands if nobody else wrote `key` since the caller read `expectedVersion`.
+    function setDataIfVersion(string calldata key, uint256 expectedVersion, bytes calldata value) external {
+        uint256 currentVersion = dataVersion[key];
+        if (currentVersion != expectedVersion) {
+            revert VersionMismatch(key, expectedVersion, currentVersion);
+        }
+        _store(key, value);
+    }
+
+    function _store(string calldata key, bytes calldata value) internal {
+        data[key] = value;
+        dataVersion[key]++;
+        emit DataStored(msg.sender, key, value);
+    }
+}
@@ -1,98 +1,228 @@
 // App.tsx
 import { ConnectButton } from '@rainbow-me/rainbowkit';
 import '@rainbow-me/rainbowkit/styles.css';
-import React, { useEffect, useState } from "react";
+import React, { useEffect, useMemo, useState } from "react";
 import { ethers } from "ethers";
-import { getContractReadOnly, getContractWithSigner } from "./contract";
+import { getContractReadOnly, getContractWithSigner, getRegistryReadOnly, getRegistryWithSigner } from "./contract";
+import { SyncedBatch, syncRegistrySnapshot } from "./deedSync";
+import { DeedRegistryClient, describeRegistryError, formatDuration } from "../../../sdk";
+import type { DeedHandles } from "../../../sdk";
+import { DEFAULT_NETWORK, NETWORKS, NetworkConfig, explorerTxUrl, getActiveNetwork, getNetwork, setActiveNetwork } from "./networks";
+import { ACTIVITY_PAGE_SIZE, ActivityPage, loadActivityPage, recordLocalActivity, syncActivityHistory } from "./activityHistory";
+import { DeedMetadata, METADATA_KEY, appendDeedMetadata, decodeDeedMetadata, indexDeedMetadata, metadataKey } from "./deedMetadata";
+import { assertDecryptionAllowed, createUserDecryptionSession, encryptDeedInput, encryptTransferInput, isSessionValid, userDecryptHandle, UserDecryptionSession } from "./fhe";
+import PropertyMap, { MapClickEvent, MapPoint } from "./components/PropertyMap";
+import AdminConsole from "./components/AdminConsole";
+import BatchDecryptionPanel from "./components/BatchDecryptionPanel";
+import RpcHealthPanel from "./components/RpcHealthPanel";
+import TransactionTray from "./components/TransactionTray";
+import { trackTransaction } from "./txTracker";
+import { useSubmissionCooldown } from "./cooldown";
+import { getDeedPageCache } from "./deedPages";
+import VirtualDeedList from "./components/VirtualDeedList";
+import DeedFilterBar from "./components/DeedFilterBar";
+import { DeedFilters, matchesDeedFilters, parseDeedFilters, writeDeedFilters } from "./deedFilters";
+import { AppTab, TAB_PATHS, batchPath, deedPath, parseRoute } from "./routes";
+import BatchDetailModal from "./components/BatchDetailModal";
+import { DEED_HISTORY_LABELS, DEED_HISTORY_ROLES, DeedHistoryEntry, buildDeedHistory } from "./deedHistory";
 import "./App.css";
-import { useAccount, useSignMessage } from 'wagmi';
+import { useAccount, useSignTypedData, useSwitchChain } from 'wagmi';
+import { Link, Navigate, useLocation, useNavigate, useSearchParams } from 'react-router-dom';
 
 interface PropertyDeed {
   id: number;
-  encryptedId: string;
+  batchId: number;
+  deedIndex: number;
+  provider: string;
+  batchClosed: boolean;
   location: string;
   coordinates: { lat: number, lng: number };
-  encryptedOwner: string;
-  encryptedValue: string;
   timestamp: number;
-  transactionHistory: string[];
+  transactionHash: string;
+  history: DeedHistoryEntry[];
 }
 
-interface UserAction {
-  type: 'register' | 'transfer' | 'view' | 'decrypt';
-  timestamp: number;
-  details: string;
+interface NewDeedData {
+  location: string;
+  coordinates: { lat: number, lng: number };
+  value: number;
+  ownerIdentity: number;
+  propertyId: number;
+  transactionCount: number;
+  lastTransactionDate: string;
 }
 
-// FHE encryption/decryption functions
-const FHEEncryptNumber = (value: number): string => `FHE-${btoa(value.toString())}`;
-const FHEDecryptNumber = (encryptedData: string): number => encryptedData.startsWith('FHE-') ? parseFloat(atob(encryptedData.substring(4))) : parseFloat(encryptedData);
-const generatePublicKey = () => `0x${Array(2000).fill(0).map(() => Math.floor(Math.random() * 16).toString(16)).join('')}`;
+interface TransferData {
+  currentOwnerIdentity: number;
+  newOwnerIdentity: number;
+  recipient: string;
+}
+
+// Handles are read lazily, page by page, so they may not be there yet
+const shortHandle = (handle: string | undefined, length: number) => handle ? `${handle.substring(0, length)}...` : "Loading...";
+
+const emptyTransferData = (): TransferData => ({ currentOwnerIdentity: 0, newOwnerIdentity: 0, recipient: "" });
+
+const emptyDeedData = (): NewDeedData => ({ location: "", coordinates: { lat: 0, lng: 0 }, value: 0, ownerIdentity: 0, propertyId: 0, transactionCount: 0, lastTransactionDate: "" });
 
 const App: React.FC = () => {
-  const { address, isConnected } = useAccount();
-  const { signMessageAsync } = useSignMessage();
+  const { address, isConnected, chainId } = useAccount();
+  const { signTypedDataAsync } = useSignTypedData();
+  const { switchChain } = useSwitchChain();
+  const [network, setNetwork] = useState(getActiveNetwork());
   const [loading, setLoading] = useState(true);
   const [deeds, setDeeds] = useState<PropertyDeed[]>([]);
+  const [batches, setBatches] = useState<SyncedBatch[]>([]);
   const [isRefreshing, setIsRefreshing] = useState(false);
   const [showRegisterModal, setShowRegisterModal] = useState(false);
   const [registeringDeed, setRegisteringDeed] = useState(false);
-  const [transactionStatus, setTransactionStatus] = useState<{ visible: boolean; status: "pending" | "success" | "error"; message: string; }>({ visible: false, status: "pending", message: "" });
-  const [newDeedData, setNewDeedData] = useState({ location: "", coordinates: { lat: 0, lng: 0 }, value: 0 });
-  const [selectedDeed, setSelectedDeed] = useState<PropertyDeed | null>(null);
+  // Progress and errors before a transaction exists; submitted ones are followed in the tray
+  const [transactionStatus, setTransactionStatus] = useState<{ visible: boolean; status: "pending" | "error"; message: string; }>({ visible: false, status: "pending", message: "" });
+  const [newDeedData, setNewDeedData] = useState<NewDeedData>(emptyDeedData());
+  const [selectedHandles, setSelectedHandles] = useState<DeedHandles | null>(null);
+  const [transferDeedTarget, setTransferDeedTarget] = useState<PropertyDeed | null>(null);
+  const [transferData, setTransferData] = useState<TransferData>(emptyTransferData());
+  const [isRegistrar, setIsRegistrar] = useState(false);
+  const [transferring, setTransferring] = useState(false);
   const [decryptedValue, setDecryptedValue] = useState<number | null>(null);
   const [isDecrypting, setIsDecrypting] = useState(false);
-  const [publicKey, setPublicKey] = useState("");
+  const [decryptionSession, setDecryptionSession] = useState<UserDecryptionSession | null>(null);
   const [contractAddress, setContractAddress] = useState("");
-  const [chainId, setChainId] = useState(0);
   const [startTimestamp, setStartTimestamp] = useState(0);
   const [durationDays, setDurationDays] = useState(30);
-  const [userActions, setUserActions] = useState<UserAction[]>([]);
-  const [activeTab, setActiveTab] = useState('deeds');
+  const [activity, setActivity] = useState<ActivityPage>({ records: [], total: 0 });
+  const [activityPage, setActivityPage] = useState(0);
+  const [activityVersion, setActivityVersion] = useState(0);
   const [mapView, setMapView] = useState(false);
-  const [mapCenter, setMapCenter] = useState({ lat: 39.9042, lng: 116.4074 }); // Beijing coordinates
+  const [showRpcHealth, setShowRpcHealth] = useState(false);
+  const cooldown = useSubmissionCooldown(address, network);
+  const [searchParams, setSearchParams] = useSearchParams();
+  const location = useLocation();
+  const navigate = useNavigate();
   
-  // Initialize signature parameters
+  // The path picks the tab and any open detail modal, so back/forward and reloads restore the view;
+  // the query string rides along so deed filters survive opening and closing a deed
+  const route = parseRoute(location.pathname);
+  const activeTab: AppTab = route?.tab ?? 'deeds';
+  const goTo = (pathname: string) => navigate({ pathname, search: location.search });
+  const selectedDeed = route?.deed
+    ? deeds.find(d => d.batchId === route.deed!.batchId && d.deedIndex === route.deed!.deedIndex) ?? null
+    : null;
+  
+  // Filter state lives in the query string so a filtered list can be shared or bookmarked
+  const deedFilters = useMemo(() => parseDeedFilters(searchParams), [searchParams]);
+  const setDeedFilters = (filters: DeedFilters) => setSearchParams(writeDeedFilters(filters, searchParams), { replace: true });
+  const filteredDeeds = useMemo(() => deeds.filter(deed => matchesDeedFilters(deed, deedFilters)), [deeds, deedFilters]);
+  
+  // Follow the wallet's chain; a disconnected wallet reads from the default network and
+  // an unsupported chain keeps the current one until the user switches
+  const walletNetwork = isConnected ? getNetwork(chainId) : DEFAULT_NETWORK;
+  const unsupportedChain = isConnected && chainId !== undefined && !walletNetwork;
+  useEffect(() => {
+    if (walletNetwork && walletNetwork.chainId !== network.chainId) {
+      setActiveNetwork(walletNetwork);
+      setNetwork(walletNetwork);
+    }
+  }, [walletNetwork?.chainId]);
+
+  // Initialize signature parameters and reload everything whenever the network changes
   useEffect(() => {
+    setDeeds([]);
+    setBatches([]);
+    setDecryptionSession(null);
     loadData().finally(() => setLoading(false));
     const initSignatureParams = async () => {
-      const contract = await getContractReadOnly();
-      if (contract) setContractAddress(await contract.getAddress());
-      if (window.ethereum) {
-        const chainIdHex = await window.ethereum.request({ method: 'eth_chainId' });
-        setChainId(parseInt(chainIdHex, 16));
-      }
+      setContractAddress(network.registryAddress);
       setStartTimestamp(Math.floor(Date.now() / 1000));
       setDurationDays(30);
-      setPublicKey(generatePublicKey());
     };
     initSignatureParams();
-  }, []);
+  }, [network.chainId]);
 
-  // Load data from contract
+  // Reload the visible page of the connected account's history
+  useEffect(() => {
+    if (!address || !network.registryAddress) {
+      setActivity({ records: [], total: 0 });
+      return;
+    }
+    let cancelled = false;
+    loadActivityPage(network.chainId, network.registryAddress, address, activityPage)
+      .then(page => { if (!cancelled) setActivity(page); })
+      .catch(e => console.error("Error loading activity history:", e));
+    return () => { cancelled = true; };
+  }, [address, activityPage, activityVersion, network.chainId]);
+
+  useEffect(() => { setActivityPage(0); }, [address, network.chainId]);
+
+  // The list only reads handles for the rows in view; a deed opened from the map may need its page read
+  useEffect(() => {
+    setSelectedHandles(null);
+    setDecryptedValue(null);
+    if (!selectedDeed) return;
+    let cancelled = false;
+    getDeedPageCache(network).ensure(selectedDeed.batchId, selectedDeed.deedIndex)
+      .then(handles => { if (!cancelled) setSelectedHandles(handles); })
+      .catch(e => console.error("Error loading deed handles:", e));
+    return () => { cancelled = true; };
+  }, [selectedDeed?.batchId, selectedDeed?.deedIndex, network.chainId]);
+
+  // Load public deed metadata from the UniversalAdapter key-value store
+  const loadDeedMetadata = async (): Promise<DeedMetadata[]> => {
+    const contract = await getContractReadOnly();
+    if (!contract) return [];
+    return decodeDeedMetadata(await contract.getData(METADATA_KEY));
+  };
+
+  // Rebuild the deed list from registry events, decorated with public metadata
   const loadData = async () => {
     setIsRefreshing(true);
+    const syncedNetwork = getActiveNetwork();
     try {
-      const contract = await getContractReadOnly();
-      if (!contract) return;
+      const registry = await getRegistryReadOnly();
+      if (!registry) return;
+      
+      const snapshot = await syncRegistrySnapshot(registry, syncedNetwork.registryDeployBlock);
+      // The wallet moved to another chain while this one was syncing
+      if (getActiveNetwork() !== syncedNetwork) return;
       
-      // Check contract availability
-      const isAvailable = await contract.isAvailable();
-      if (!isAvailable) {
-        setTransactionStatus({ visible: true, status: "success", message: "Contract is available!" });
-        setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 2000);
+      // Activity history is secondary; a failed sync must not hide the deed list
+      try {
+        await syncActivityHistory(registry, syncedNetwork.registryDeployBlock);
+        setActivityVersion(v => v + 1);
+      } catch (e) {
+        console.error("Error syncing activity history:", e);
       }
+      const closedBatches = new Set(snapshot.batches.filter(b => b.closedAtBlock !== null).map(b => b.batchId));
+      const batchesById = new Map(snapshot.batches.map(b => [b.batchId, b]));
+      setBatches(snapshot.batches);
+      // Transfers since the last sync may have replaced handles the list already read
+      getDeedPageCache(syncedNetwork).invalidate();
       
-      // Load deeds
-      const deedsBytes = await contract.getData("property_deeds");
-      let deedsList: PropertyDeed[] = [];
-      if (deedsBytes.length > 0) {
-        try {
-          const deedsStr = ethers.toUtf8String(deedsBytes);
-          if (deedsStr.trim() !== '') deedsList = JSON.parse(deedsStr);
-        } catch (e) {}
+      let metadata: DeedMetadata[] = [];
+      try {
+        metadata = await loadDeedMetadata();
+      } catch (e: unknown) {
+        console.error("Error loading deed metadata:", e);
+        setTransactionStatus({ visible: true, status: "error", message: await describeRegistryError(e) });
+        setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 3000);
       }
-      setDeeds(deedsList);
+      const metadataIndex = indexDeedMetadata(metadata);
+      
+      setDeeds(snapshot.deeds.map((deed, index) => {
+        const meta = metadataIndex.get(metadataKey(deed.batchId, deed.deedIndex));
+        return {
+          id: index + 1,
+          batchId: deed.batchId,
+          deedIndex: deed.deedIndex,
+          provider: deed.provider,
+          batchClosed: closedBatches.has(deed.batchId),
+          location: meta?.location ?? `Batch ${deed.batchId} / Deed ${deed.deedIndex}`,
+          coordinates: meta?.coordinates ?? { lat: 0, lng: 0 },
+          timestamp: deed.timestamp,
+          transactionHash: deed.transactionHash,
+          history: buildDeedHistory(deed, batchesById.get(deed.batchId))
+        };
+      }));
     } catch (e) {
       console.error("Error loading data:", e);
       setTransactionStatus({ visible: true, status: "error", message: "Failed to load data" });
@@ -114,58 +244,133 @@ const App: React.FC = () => {
     setRegisteringDeed(true);
     setTransactionStatus({ visible: true, status: "pending", message: "Registering deed with Zama FHE..." });
     
+    let registry: DeedRegistryClient | undefined;
+    let registered: Awaited<ReturnType<DeedRegistryClient["waitForDeedRegistered"]>>;
+    const now = Math.floor(Date.now() / 1000);
     try {
-      const contract = await getContractWithSigner();
-      if (!contract) throw new Error("Failed to get contract with signer");
+      registry = await getRegistryWithSigner();
       
-      // Create new deed
-      const newDeed: PropertyDeed = {
-        id: deeds.length + 1,
-        encryptedId: FHEEncryptNumber(deeds.length + 1),
-        location: newDeedData.location,
-        coordinates: newDeedData.coordinates,
-        encryptedOwner: FHEEncryptNumber(Math.random() * 1000000), // Simulate encrypted owner ID
-        encryptedValue: FHEEncryptNumber(newDeedData.value),
-        timestamp: Math.floor(Date.now() / 1000),
-        transactionHistory: [`Registered by ${address.substring(0, 6)}...`]
-      };
+      // Encrypt the confidential fields client-side with the relayer SDK
+      const lastTransactionTimestamp = newDeedData.lastTransactionDate
+        ? Math.floor(new Date(newDeedData.lastTransactionDate).getTime() / 1000)
+        : now;
+      const encrypted = await encryptDeedInput(registry.address, address, {
+        ownerIdentity: Number(newDeedData.ownerIdentity),
+        propertyId: Number(newDeedData.propertyId),
+        transactionCount: Number(newDeedData.transactionCount),
+        lastTransactionTimestamp,
+        propertyValue: Number(newDeedData.value)
+      });
       
-      // Update deeds list
-      const updatedDeeds = [...deeds, newDeed];
+      setTransactionStatus({ visible: true, status: "pending", message: "Submitting encrypted deed to the registry..." });
+      const tx = await registry.registerDeed(encrypted);
+      trackTransaction(tx, "Register deed");
+      setTransactionStatus({ visible: true, status: "pending", message: "Waiting for the registration to be mined..." });
+      registered = await registry.waitForDeedRegistered(tx);
+    } catch (e: unknown) {
+      const errorMessage = "Registration failed: " + await describeRegistryError(e, { client: registry, account: address });
+      setTransactionStatus({ visible: true, status: "error", message: errorMessage });
+      setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 3000);
+      setRegisteringDeed(false);
+      return;
+    }
+    
+    // The deed is registered at this point. Its public location is a separate write to
+    // UniversalAdapter, so a failure here must not be reported as a failed registration.
+    const newMetadata: DeedMetadata = {
+      batchId: Number(registered.batchId),
+      deedIndex: Number(registered.deedIndex),
+      location: newDeedData.location,
+      coordinates: newDeedData.coordinates,
+      timestamp: now
+    };
+    setShowRegisterModal(false);
+    setNewDeedData(emptyDeedData());
+    try {
+      const contract = await getContractWithSigner();
+      setTransactionStatus({ visible: true, status: "pending", message: "Saving public deed metadata..." });
+      await appendDeedMetadata(contract, newMetadata, metadataTx =>
+        trackTransaction(metadataTx, `Save metadata for deed ${newMetadata.batchId}/${newMetadata.deedIndex}`));
+      setTransactionStatus({ visible: false, status: "pending", message: "" });
+    } catch (e: unknown) {
+      console.error("Error saving deed metadata:", e);
+      setTransactionStatus({
+        visible: true,
+        status: "error",
+        message: `Deed ${newMetadata.batchId}/${newMetadata.deedIndex} is registered, but its location could not be saved: ${await describeRegistryError(e)}`
+      });
+      setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 6000);
+    } finally {
+      setRegisteringDeed(false);
+    }
+    await loadData();
+  };
+
+  // Open the transfer modal; the deed's registrar skips the encrypted ownership proof
+  const openTransferModal = async (deed: PropertyDeed) => {
+    setTransferDeedTarget(deed);
+    setTransferData(emptyTransferData());
+    setIsRegistrar(false);
+    if (!address || address.toLowerCase() !== deed.provider.toLowerCase()) return;
+    try {
+      const registry = await getRegistryReadOnly({ quorum: true });
+      setIsRegistrar(registry ? await registry.isProvider(address) : false);
+    } catch (e) {
+      console.error("Error checking registrar status:", e);
+    }
+  };
+
+  // Submit a confidential transfer of the deed to a new owner identity
+  const transferDeed = async () => {
+    if (!isConnected || !address || !transferDeedTarget) { 
+      setTransactionStatus({ visible: true, status: "error", message: "Please connect wallet first" });
+      setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 3000);
+      return; 
+    }
+    
+    setTransferring(true);
+    setTransactionStatus({ visible: true, status: "pending", message: "Encrypting transfer with Zama FHE..." });
+    
+    let registry: DeedRegistryClient | undefined;
+    try {
+      registry = await getRegistryWithSigner();
+      const recipient = isRegistrar ? transferData.recipient.trim() : "";
+      if (recipient && !ethers.isAddress(recipient)) {
+        throw new Error("Recipient wallet is not a valid address");
+      }
       
-      // Save to contract
-      await contract.setData("property_deeds", ethers.toUtf8Bytes(JSON.stringify(updatedDeeds)));
+      const encrypted = await encryptTransferInput(registry.address, address, {
+        // Registrars are authorised in the clear; the claimed owner is ignored for them
+        currentOwnerIdentity: isRegistrar ? 0 : Number(transferData.currentOwnerIdentity),
+        newOwnerIdentity: Number(transferData.newOwnerIdentity)
+      });
       
-      // Update user actions
-      const newAction: UserAction = {
-        type: 'register',
-        timestamp: Math.floor(Date.now() / 1000),
-        details: `Registered property at ${newDeedData.location}`
-      };
-      setUserActions(prev => [newAction, ...prev]);
+      setTransactionStatus({ visible: true, status: "pending", message: "Submitting encrypted transfer to the registry..." });
+      const tx = await registry.transferDeed(transferDeedTarget.batchId, transferDeedTarget.deedIndex, encrypted, recipient || undefined);
+      trackTransaction(
+        tx,
+        `Transfer deed ${transferDeedTarget.batchId}/${transferDeedTarget.deedIndex}`,
+        isRegistrar ? null : "Takes effect only if the claimed current owner ID matched"
+      );
+      setTransactionStatus({ visible: true, status: "pending", message: "Waiting for the transfer to be mined..." });
+      await registry.waitForDeedTransferred(tx);
       
-      setTransactionStatus({ visible: true, status: "success", message: "Property deed registered successfully!" });
+      setTransactionStatus({ visible: false, status: "pending", message: "" });
+      setTransferDeedTarget(null);
+      setTransferData(emptyTransferData());
       await loadData();
-      
-      setTimeout(() => {
-        setTransactionStatus({ visible: false, status: "pending", message: "" });
-        setShowRegisterModal(false);
-        setNewDeedData({ location: "", coordinates: { lat: 0, lng: 0 }, value: 0 });
-      }, 2000);
-    } catch (e: any) {
-      const errorMessage = e.message.includes("user rejected transaction") 
-        ? "Transaction rejected by user" 
-        : "Registration failed: " + (e.message || "Unknown error");
+    } catch (e: unknown) {
+      const errorMessage = "Transfer failed: " + await describeRegistryError(e, { client: registry, account: address });
       setTransactionStatus({ visible: true, status: "error", message: errorMessage });
       setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 3000);
     } finally { 
-      setRegisteringDeed(false); 
+      setTransferring(false); 
     }
   };
 
-  // Decrypt value with signature
+  // Decrypt value with an EIP-712 user-decryption signature
   const decryptWithSignature = async (encryptedData: string): Promise<number | null> => {
-    if (!isConnected) { 
+    if (!isConnected || !address) { 
       setTransactionStatus({ visible: true, status: "error", message: "Please connect wallet first" });
       setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 3000);
       return null; 
@@ -173,20 +378,45 @@ const App: React.FC = () => {
     
     setIsDecrypting(true);
     try {
-      const message = `publickey:${publicKey}\ncontractAddresses:${contractAddress}\ncontractsChainId:${chainId}\nstartTimestamp:${startTimestamp}\ndurationDays:${durationDays}`;
-      await signMessageAsync({ message });
-      await new Promise(resolve => setTimeout(resolve, 1500));
+      if (!ethers.isHexString(encryptedData, 32)) {
+        throw new Error("This record predates encrypted registration and has no ciphertext handle");
+      }
+      await assertDecryptionAllowed(encryptedData, contractAddress, address);
+      
+      let session = decryptionSession;
+      if (!isSessionValid(session, address, contractAddress)) {
+        session = await createUserDecryptionSession(
+          address,
+          [contractAddress],
+          startTimestamp,
+          durationDays,
+          (typedData) => signTypedDataAsync({
+            domain: { ...typedData.domain, verifyingContract: typedData.domain.verifyingContract as `0x${string}` },
+            types: { UserDecryptRequestVerification: typedData.types.UserDecryptRequestVerification },
+            primaryType: "UserDecryptRequestVerification",
+            message: typedData.message
+          })
+        );
+        setDecryptionSession(session);
+      }
       
-      // Update user actions
-      const newAction: UserAction = {
-        type: 'decrypt',
-        timestamp: Math.floor(Date.now() / 1000),
-        details: "Decrypted property value"
-      };
-      setUserActions(prev => [newAction, ...prev]);
+      const value = await userDecryptHandle(encryptedData, contractAddress, session);
       
-      return FHEDecryptNumber(encryptedData);
-    } catch (e) { 
+      // User decryption happens off-chain, so it is only recorded in this browser
+      try {
+        await recordLocalActivity(network.chainId, contractAddress, address, 'decrypt', "Decrypted property value");
+        setActivityVersion(v => v + 1);
+      } catch (e) {
+        console.error("Error recording activity:", e);
+      }
+      
+      return Number(value);
+    } catch (e: unknown) { 
+      const errorMessage = ethers.isError(e, "ACTION_REJECTED")
+        ? "Signature rejected by user"
+        : "Decryption failed: " + await describeRegistryError(e);
+      setTransactionStatus({ visible: true, status: "error", message: errorMessage });
+      setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 3000);
       return null; 
     } finally { 
       setIsDecrypting(false); 
@@ -194,23 +424,42 @@ const App: React.FC = () => {
   };
 
   // Handle map click to set coordinates
-  const handleMapClick = (e: any) => {
+  const handleMapClick = (e: MapClickEvent) => {
     if (showRegisterModal) {
       setNewDeedData({
         ...newDeedData,
         coordinates: {
-          lat: e.lngLat.lat,
-          lng: e.lngLat.lng
+          lat: Number(e.lngLat.lat.toFixed(6)),
+          lng: Number(e.lngLat.lng.toFixed(6))
         }
       });
     }
   };
 
+  // Deeds without public metadata have no real coordinates and are left off the map
+  const toMapPoints = (list: PropertyDeed[]): MapPoint[] => list
+    .filter(deed => deed.coordinates.lat !== 0 || deed.coordinates.lng !== 0)
+    .map(deed => ({ id: deed.id, label: deed.location, coordinates: deed.coordinates }));
+  const mapPoints = toMapPoints(deeds);
+
+  const deedCountsByBatch = new Map<number, number>();
+  for (const deed of deeds) deedCountsByBatch.set(deed.batchId, (deedCountsByBatch.get(deed.batchId) ?? 0) + 1);
+
+  const selectDeedById = (id: number) => {
+    const deed = deeds.find(d => d.id === id);
+    if (deed) goTo(deedPath(deed.batchId, deed.deedIndex));
+  };
+  
+  const closeDetail = () => goTo(TAB_PATHS[activeTab]);
+
   // Render statistics cards
   const renderStatistics = () => {
-    const totalValue = deeds.reduce((sum, deed) => sum + FHEDecryptNumber(deed.encryptedValue), 0);
-    const avgValue = deeds.length > 0 ? totalValue / deeds.length : 0;
-    const recentActivity = deeds.length > 0 ? deeds.slice(0, 3).map(d => d.location) : [];
+    // Only oracle-verified batch sums are shown; individual values stay encrypted
+    const closedBatches = batches.filter(b => b.closedAtBlock !== null);
+    const verified = closedBatches
+      .map(b => [...b.decryptions].reverse().find(d => d.propertyValueSum !== null))
+      .filter(d => d !== undefined);
+    const verifiedTotal = verified.reduce((sum, d) => sum + BigInt(d!.propertyValueSum!), 0n);
     
     return (
       <div className="stats-container">
@@ -224,41 +473,78 @@ const App: React.FC = () => {
         <div className="stat-card">
           <div className="stat-icon">💰</div>
           <div className="stat-content">
-            <div className="stat-value">${totalValue.toLocaleString()}</div>
-            <div className="stat-label">Total Value</div>
+            <div className="stat-value">${verifiedTotal.toLocaleString()}</div>
+            <div className="stat-label">Verified Value ({verified.length} of {closedBatches.length} closed batches)</div>
           </div>
         </div>
         <div className="stat-card">
           <div className="stat-icon">📊</div>
           <div className="stat-content">
-            <div className="stat-value">${avgValue.toLocaleString()}</div>
-            <div className="stat-label">Average Value</div>
+            <div className="stat-value">{batches.length}</div>
+            <div className="stat-label">Batches ({closedBatches.length} closed)</div>
           </div>
         </div>
       </div>
     );
   };
 
-  // Render user actions history
+  // Shortened hash, linked to the block explorer when the network has one
+  const renderTxHash = (hash: string) => {
+    const url = explorerTxUrl(network, hash);
+    const label = `${hash.substring(0, 10)}...`;
+    return url ? <a href={url} target="_blank" rel="noopener noreferrer">{label}</a> : label;
+  };
+
   const renderUserActions = () => {
-    if (userActions.length === 0) return <div className="no-data">No actions recorded</div>;
+    if (!isConnected) return <div className="no-data">Connect your wallet to see your activity</div>;
+    if (activity.total === 0) return <div className="no-data">No actions recorded</div>;
     
+    const pageCount = Math.ceil(activity.total / ACTIVITY_PAGE_SIZE);
     return (
       <div className="actions-list">
-        {userActions.map((action, index) => (
-          <div className="action-item" key={index}>
-            <div className={`action-type ${action.type}`}>
-              {action.type === 'register' && '📝'}
-              {action.type === 'transfer' && '🔄'}
-              {action.type === 'view' && '👁️'}
-              {action.type === 'decrypt' && '🔓'}
+        {activity.records.map(action => (
+          <div className="action-item" key={action.id}>
+            <div className={`action-type ${action.kind}`}>
+              {action.kind === 'register' && '📝'}
+              {action.kind === 'transfer' && '🔄'}
+              {action.kind === 'decrypt' && '🔓'}
+              {action.kind === 'decrypt-request' && '🧮'}
+              {action.kind === 'decrypt-result' && '📊'}
+              {action.kind === 'admin' && '🛠️'}
             </div>
             <div className="action-details">
               <div className="action-text">{action.details}</div>
-              <div className="action-time">{new Date(action.timestamp * 1000).toLocaleString()}</div>
+              <div className="action-time">
+                {new Date(action.timestamp * 1000).toLocaleString()}
+                {action.source === 'chain' ? (
+                  <>
+                    {` · block ${action.blockNumber} · `}
+                    {renderTxHash(action.transactionHash!)}
+                  </>
+                ) : " · this browser only"}
+              </div>
             </div>
           </div>
         ))}
+        {pageCount > 1 && (
+          <div className="actions-pagination">
+            <button 
+              className="page-btn" 
+              onClick={() => setActivityPage(activityPage - 1)} 
+              disabled={activityPage === 0}
+            >
+              Newer
+            </button>
+            <span>Page {activityPage + 1} of {pageCount}</span>
+            <button 
+              className="page-btn" 
+              onClick={() => setActivityPage(activityPage + 1)} 
+              disabled={activityPage + 1 >= pageCount}
+            >
+              Older
+            </button>
+          </div>
+        )}
       </div>
     );
   };
@@ -300,6 +586,9 @@ const App: React.FC = () => {
     );
   };
 
+  // Unknown paths, including the bare root, land on the deed list
+  if (!route) return <Navigate to={{ pathname: TAB_PATHS.deeds, search: location.search }} replace />;
+
   if (loading) return (
     <div className="loading-screen">
       <div className="fhe-spinner"></div>
@@ -330,6 +619,17 @@ const App: React.FC = () => {
         </div>
       </header>
       
+      {unsupportedChain && (
+        <div className="network-banner">
+          <span>Your wallet is on an unsupported network (chain {chainId}). Showing {network.label} data.</span>
+          {NETWORKS.map(n => (
+            <button key={n.chainId} className="network-switch-btn" onClick={() => switchChain({ chainId: n.chainId })}>
+              Switch to {n.label}
+            </button>
+          ))}
+        </div>
+      )}
+      
       <div className="main-content-container">
         <div className="dashboard-section">
           <div className="dashboard-grid">
@@ -348,6 +648,7 @@ const App: React.FC = () => {
               <div className="panel-card">
                 <h2>Global Property Map</h2>
                 <div className="map-container">
+                  <PropertyMap points={mapPoints} onSelect={selectDeedById} />
                 </div>
               </div>
             </div>
@@ -357,19 +658,31 @@ const App: React.FC = () => {
             <div className="tabs">
               <button 
                 className={`tab ${activeTab === 'deeds' ? 'active' : ''}`}
-                onClick={() => setActiveTab('deeds')}
+                onClick={() => goTo(TAB_PATHS.deeds)}
               >
                 Property Deeds
               </button>
               <button 
-                className={`tab ${activeTab === 'actions' ? 'active' : ''}`}
-                onClick={() => setActiveTab('actions')}
+                className={`tab ${activeTab === 'batches' ? 'active' : ''}`}
+                onClick={() => goTo(TAB_PATHS.batches)}
+              >
+                Batches
+              </button>
+              <button 
+                className={`tab ${activeTab === 'activity' ? 'active' : ''}`}
+                onClick={() => goTo(TAB_PATHS.activity)}
               >
                 My Actions
               </button>
+              <button 
+                className={`tab ${activeTab === 'admin' ? 'active' : ''}`}
+                onClick={() => goTo(TAB_PATHS.admin)}
+              >
+                Admin
+              </button>
               <button 
                 className={`tab ${activeTab === 'faq' ? 'active' : ''}`}
-                onClick={() => setActiveTab('faq')}
+                onClick={() => goTo(TAB_PATHS.faq)}
               >
                 FAQ
               </button>
@@ -397,62 +710,103 @@ const App: React.FC = () => {
                     </div>
                   </div>
                   
+                  {deeds.length > 0 && (
+                    <DeedFilterBar
+                      filters={deedFilters}
+                      onChange={setDeedFilters}
+                      batchIds={batches.map(b => b.batchId)}
+                      shown={filteredDeeds.length}
+                      total={deeds.length}
+                    />
+                  )}
+                  
                   {mapView ? (
                     <div className="full-map-container">
+                      <PropertyMap points={toMapPoints(filteredDeeds)} onSelect={selectDeedById} />
                     </div>
                   ) : (
-                    <div className="deeds-list">
-                      {deeds.length === 0 ? (
-                        <div className="no-deeds">
-                          <div className="no-deeds-icon">🏡</div>
-                          <p>No properties registered yet</p>
-                          <button 
-                            className="register-btn" 
-                            onClick={() => setShowRegisterModal(true)}
-                          >
-                            Register First Property
-                          </button>
-                        </div>
-                      ) : deeds.map((deed, index) => (
-                        <div 
-                          className={`deed-item ${selectedDeed?.id === deed.id ? "selected" : ""}`} 
-                          key={index}
-                          onClick={() => setSelectedDeed(deed)}
+                    deeds.length === 0 ? (
+                      <div className="no-deeds">
+                        <div className="no-deeds-icon">🏡</div>
+                        <p>No properties registered yet</p>
+                        <button 
+                          className="register-btn" 
+                          onClick={() => setShowRegisterModal(true)}
                         >
-                          <div className="deed-header">
-                            <div className="deed-location">{deed.location}</div>
-                            <div className="deed-id">ID: {deed.encryptedId.substring(0, 8)}...</div>
-                          </div>
-                          <div className="deed-details">
-                            <div className="deed-value">
-                              <span>Value:</span>
-                              <strong>{deed.encryptedValue.substring(0, 10)}...</strong>
+                          Register First Property
+                        </button>
+                      </div>
+                    ) : filteredDeeds.length === 0 ? (
+                      <div className="no-deeds">
+                        <p>No deeds match these filters</p>
+                      </div>
+                    ) : (
+                      <VirtualDeedList
+                        network={network}
+                        items={filteredDeeds}
+                        itemKey={deed => deed.id}
+                        renderItem={(deed, handles) => (
+                          <div 
+                            className={`deed-item ${selectedDeed?.id === deed.id ? "selected" : ""}`} 
+                            onClick={() => goTo(deedPath(deed.batchId, deed.deedIndex))}
+                          >
+                            <div className="deed-header">
+                              <div className="deed-location">{deed.location}</div>
+                              <div className="deed-id">ID: {shortHandle(handles?.encryptedPropertyId, 8)}</div>
                             </div>
-                            <div className="deed-owner">
-                              <span>Owner:</span>
-                              <strong>{deed.encryptedOwner.substring(0, 10)}...</strong>
+                            <div className="deed-details">
+                              <div className="deed-value">
+                                <span>Value:</span>
+                                <strong>{shortHandle(handles?.encryptedPropertyValue, 10)}</strong>
+                              </div>
+                              <div className="deed-owner">
+                                <span>Owner:</span>
+                                <strong>{shortHandle(handles?.encryptedOwnerIdentity, 10)}</strong>
+                              </div>
                             </div>
-                          </div>
-                          <div className="deed-footer">
-                            <div className="deed-date">{new Date(deed.timestamp * 1000).toLocaleDateString()}</div>
-                            <div className="fhe-tag">
-                              <span>FHE Encrypted</span>
+                            <div className="deed-footer">
+                              <div className="deed-date">{new Date(deed.timestamp * 1000).toLocaleDateString()}</div>
+                              <div className="fhe-tag">
+                                <span>FHE Encrypted</span>
+                              </div>
                             </div>
                           </div>
-                        </div>
-                      ))}
-                    </div>
+                        )}
+                      />
+                    )
                   )}
                 </div>
               )}
               
-              {activeTab === 'actions' && (
+              {activeTab === 'batches' && (
+                <div className="batches-section">
+                  <h2>Batch Value Totals</h2>
+                  <BatchDecryptionPanel 
+                    key={network.chainId}
+                    batches={batches} 
+                    deedCounts={deedCountsByBatch} 
+                    isConnected={isConnected} 
+                    address={address}
+                    cooldown={cooldown}
+                    onChanged={loadData}
+                  />
+                </div>
+              )}
+              
+              {activeTab === 'activity' && (
                 <div className="actions-section">
                   <h2>My Activity History</h2>
                   {renderUserActions()}
                 </div>
               )}
               
+              {activeTab === 'admin' && (
+                <div className="admin-section">
+                  <h2>Registry Administration</h2>
+                  <AdminConsole key={network.chainId} address={address} onChanged={loadData} />
+                </div>
+              )}
+              
               {activeTab === 'faq' && (
                 <div className="faq-section">
                   <h2>Frequently Asked Questions</h2>
@@ -469,22 +823,69 @@ const App: React.FC = () => {
           onSubmit={registerDeed} 
           onClose={() => setShowRegisterModal(false)} 
           registering={registeringDeed} 
+          cooldownRemaining={cooldown.remaining}
           deedData={newDeedData} 
           setDeedData={setNewDeedData}
+          mapPoints={mapPoints}
+          onMapClick={handleMapClick}
         />
       )}
       
       {selectedDeed && (
         <DeedDetailModal 
           deed={selectedDeed} 
-          onClose={() => { 
-            setSelectedDeed(null); 
-            setDecryptedValue(null); 
-          }} 
+          handles={selectedHandles}
+          network={network}
+          onClose={closeDetail} 
           decryptedValue={decryptedValue} 
           setDecryptedValue={setDecryptedValue} 
           isDecrypting={isDecrypting} 
           decryptWithSignature={decryptWithSignature}
+          onTransfer={() => {
+            openTransferModal(selectedDeed);
+            closeDetail();
+          }}
+        />
+      )}
+      
+      {route?.deed && !selectedDeed && (
+        <div className="modal-overlay">
+          <div className="deed-detail-modal">
+            <div className="modal-header">
+              <h2>Property Details</h2>
+              <button onClick={closeDetail} className="close-modal">&times;</button>
+            </div>
+            <div className="modal-body">
+              <p>
+                {loading || isRefreshing
+                  ? "Loading deed..."
+                  : `Deed ${route.deed.deedIndex} of batch #${route.deed.batchId} is not registered on ${network.label}.`}
+              </p>
+            </div>
+          </div>
+        </div>
+      )}
+      
+      {route?.batchId != null && (
+        <BatchDetailModal
+          batchId={route.batchId}
+          batch={batches.find(b => b.batchId === route.batchId)}
+          loading={loading || isRefreshing}
+          deedCount={deedCountsByBatch.get(route.batchId) ?? 0}
+          network={network}
+          onClose={closeDetail}
+        />
+      )}
+      
+      {transferDeedTarget && (
+        <ModalTransferDeed 
+          deed={transferDeedTarget} 
+          onSubmit={transferDeed} 
+          onClose={() => setTransferDeedTarget(null)} 
+          transferring={transferring} 
+          isRegistrar={isRegistrar} 
+          transferData={transferData} 
+          setTransferData={setTransferData}
         />
       )}
       
@@ -493,7 +894,6 @@ const App: React.FC = () => {
           <div className="transaction-content">
             <div className={`transaction-icon ${transactionStatus.status}`}>
               {transactionStatus.status === "pending" && <div className="fhe-spinner"></div>}
-              {transactionStatus.status === "success" && <div className="success-icon">✓</div>}
               {transactionStatus.status === "error" && <div className="error-icon">✗</div>}
             </div>
             <div className="transaction-message">{transactionStatus.message}</div>
@@ -501,6 +901,10 @@ const App: React.FC = () => {
         </div>
       )}
       
+      <TransactionTray network={network} />
+      
+      {showRpcHealth && <RpcHealthPanel network={network} onClose={() => setShowRpcHealth(false)} />}
+      
       <footer className="app-footer">
         <div className="footer-content">
           <div className="footer-brand">
@@ -516,6 +920,7 @@ const App: React.FC = () => {
             <a href="#" className="footer-link">Privacy Policy</a>
             <a href="#" className="footer-link">Terms</a>
             <a href="#" className="footer-link">Contact</a>
+            <button className="footer-link rpc-health-toggle" onClick={() => setShowRpcHealth(!showRpcHealth)}>RPC health</button>
           </div>
         </div>
         
@@ -538,11 +943,15 @@ interface ModalRegisterDeedProps {
   onSubmit: () => void; 
   onClose: () => void; 
   registering: boolean;
-  deedData: any;
-  setDeedData: (data: any) => void;
+  // Seconds until the registry accepts another submission from this account
+  cooldownRemaining: number;
+  deedData: NewDeedData;
+  setDeedData: (data: NewDeedData) => void;
+  mapPoints: MapPoint[];
+  onMapClick: (e: MapClickEvent) => void;
 }
 
-const ModalRegisterDeed: React.FC<ModalRegisterDeedProps> = ({ onSubmit, onClose, registering, deedData, setDeedData }) => {
+const ModalRegisterDeed: React.FC<ModalRegisterDeedProps> = ({ onSubmit, onClose, registering, cooldownRemaining, deedData, setDeedData, mapPoints, onMapClick }) => {
   const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => {
     const { name, value } = e.target;
     setDeedData({ ...deedData, [name]: value });
@@ -572,7 +981,7 @@ const ModalRegisterDeed: React.FC<ModalRegisterDeedProps> = ({ onSubmit, onClose
             <div className="lock-icon">🔒</div>
             <div>
               <strong>FHE Property Notice</strong>
-              <p>Property details will be encrypted using Zama FHE</p>
+              <p>Owner, property ID, transaction history and value are encrypted in your browser before submission</p>
             </div>
           </div>
           
@@ -587,6 +996,49 @@ const ModalRegisterDeed: React.FC<ModalRegisterDeedProps> = ({ onSubmit, onClose
             />
           </div>
           
+          <div className="form-group">
+            <label>Owner ID *</label>
+            <input 
+              type="number" 
+              name="ownerIdentity" 
+              value={deedData.ownerIdentity} 
+              onChange={handleChange} 
+              placeholder="Registry-issued owner number..." 
+            />
+          </div>
+          
+          <div className="form-group">
+            <label>Property ID *</label>
+            <input 
+              type="number" 
+              name="propertyId" 
+              value={deedData.propertyId} 
+              onChange={handleChange} 
+              placeholder="Cadastral parcel number..." 
+            />
+          </div>
+          
+          <div className="form-group">
+            <label>Previous Transactions</label>
+            <input 
+              type="number" 
+              name="transactionCount" 
+              value={deedData.transactionCount} 
+              onChange={handleChange} 
+              placeholder="Number of prior transfers..." 
+            />
+          </div>
+          
+          <div className="form-group">
+            <label>Last Transaction Date</label>
+            <input 
+              type="date" 
+              name="lastTransactionDate" 
+              value={deedData.lastTransactionDate} 
+              onChange={handleChange} 
+            />
+          </div>
+          
           <div className="form-group">
             <label>Property Value (USD) *</label>
             <input 
@@ -620,17 +1072,125 @@ const ModalRegisterDeed: React.FC<ModalRegisterDeedProps> = ({ onSubmit, onClose
                 />
               </div>
             </div>
+            <div className="coordinates-map">
+              <PropertyMap points={mapPoints} onMapClick={onMapClick} pin={deedData.coordinates.lat || deedData.coordinates.lng ? deedData.coordinates : null} />
+            </div>
+          </div>
+        </div>
+        
+        {cooldownRemaining > 0 && !registering && (
+          <div className="cooldown-notice">
+            This account submitted recently. The registry accepts its next submission in {formatDuration(cooldownRemaining)}.
+          </div>
+        )}
+        
+        <div className="modal-footer">
+          <button onClick={onClose} className="cancel-btn">Cancel</button>
+          <button 
+            onClick={onSubmit} 
+            disabled={registering || cooldownRemaining > 0 || !deedData.location || !deedData.value || !deedData.ownerIdentity || !deedData.propertyId} 
+            className="submit-btn"
+          >
+            {registering
+              ? "Registering with FHE..."
+              : cooldownRemaining > 0 ? `Cooldown ${formatDuration(cooldownRemaining)}` : "Register Property"}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+interface ModalTransferDeedProps {
+  deed: PropertyDeed;
+  onSubmit: () => void; 
+  onClose: () => void; 
+  transferring: boolean;
+  isRegistrar: boolean;
+  transferData: TransferData;
+  setTransferData: (data: TransferData) => void;
+}
+
+const ModalTransferDeed: React.FC<ModalTransferDeedProps> = ({ deed, onSubmit, onClose, transferring, isRegistrar, transferData, setTransferData }) => {
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const { name, value } = e.target;
+    setTransferData({ ...transferData, [name]: value });
+  };
+
+  const canSubmit = !!transferData.newOwnerIdentity && (isRegistrar || !!transferData.currentOwnerIdentity);
+
+  return (
+    <div className="modal-overlay">
+      <div className="register-deed-modal">
+        <div className="modal-header">
+          <h2>Transfer Property</h2>
+          <button onClick={onClose} className="close-modal">&times;</button>
+        </div>
+        
+        <div className="modal-body">
+          <div className="fhe-notice">
+            <div className="lock-icon">🔒</div>
+            <div>
+              <strong>Confidential Transfer</strong>
+              <p>
+                {isRegistrar
+                  ? "As this deed's registrar you can reassign it directly and grant the new owner's wallet access. Owner IDs are encrypted in your browser."
+                  : "Prove ownership with the current owner ID. A wrong ID leaves the deed unchanged without revealing the owner. The new owner's wallet cannot read the deed until its registrar grants access."}
+              </p>
+            </div>
           </div>
+          
+          <div className="form-group">
+            <label>Property</label>
+            <input type="text" value={`${deed.location} (batch ${deed.batchId}, deed #${deed.deedIndex})`} disabled />
+          </div>
+          
+          {!isRegistrar && (
+            <div className="form-group">
+              <label>Current Owner ID *</label>
+              <input 
+                type="number" 
+                name="currentOwnerIdentity" 
+                value={transferData.currentOwnerIdentity} 
+                onChange={handleChange} 
+                placeholder="Registry-issued owner number..." 
+              />
+            </div>
+          )}
+          
+          <div className="form-group">
+            <label>New Owner ID *</label>
+            <input 
+              type="number" 
+              name="newOwnerIdentity" 
+              value={transferData.newOwnerIdentity} 
+              onChange={handleChange} 
+              placeholder="Registry-issued owner number..." 
+            />
+          </div>
+          
+          {isRegistrar && (
+            <div className="form-group">
+              <label>New Owner Wallet</label>
+              <input 
+                type="text" 
+                name="recipient" 
+                value={transferData.recipient} 
+                onChange={handleChange} 
+                placeholder="0x... (granted decryption access)" 
+              />
+            </div>
+          )}
         </div>
         
         <div className="modal-footer">
           <button onClick={onClose} className="cancel-btn">Cancel</button>
           <button 
             onClick={onSubmit} 
-            disabled={registering || !deedData.location || !deedData.value} 
+            disabled={transferring || !canSubmit} 
             className="submit-btn"
           >
-            {registering ? "Registering with FHE..." : "Register Property"}
+            {transferring ? "Transferring with FHE..." : "Transfer Property"}
           </button>
         </div>
       </div>
@@ -638,22 +1198,37 @@ const ModalRegisterDeed: React.FC<ModalRegisterDeedProps> = ({ onSubmit, onClose
   );
 };
 
+const HISTORY_ICONS: Record<DeedHistoryEntry['kind'], string> = {
+  'registered': '📝',
+  'transferred': '🔄',
+  'access-granted': '🔑',
+  'decryption-requested': '🧮',
+  'decryption-completed': '📊'
+};
+
 interface DeedDetailModalProps {
   deed: PropertyDeed;
+  // Null while the deed's page is being read from the registry
+  handles: DeedHandles | null;
+  network: NetworkConfig;
   onClose: () => void;
   decryptedValue: number | null;
   setDecryptedValue: (value: number | null) => void;
   isDecrypting: boolean;
   decryptWithSignature: (encryptedData: string) => Promise<number | null>;
+  onTransfer: () => void;
 }
 
 const DeedDetailModal: React.FC<DeedDetailModalProps> = ({ 
   deed, 
+  handles,
+  network,
   onClose, 
   decryptedValue, 
   setDecryptedValue, 
   isDecrypting, 
-  decryptWithSignature
+  decryptWithSignature,
+  onTransfer
 }) => {
   const handleDecrypt = async () => {
     if (decryptedValue !== null) { 
@@ -661,7 +1236,8 @@ const DeedDetailModal: React.FC<DeedDetailModalProps> = ({
       return; 
     }
     
-    const decrypted = await decryptWithSignature(deed.encryptedValue);
+    if (!handles) return;
+    const decrypted = await decryptWithSignature(handles.encryptedPropertyValue);
     if (decrypted !== null) {
       setDecryptedValue(decrypted);
     }
@@ -685,6 +1261,10 @@ const DeedDetailModal: React.FC<DeedDetailModalProps> = ({
               <span>Coordinates:</span>
               <strong>{deed.coordinates.lat}, {deed.coordinates.lng}</strong>
             </div>
+            <div className="info-item">
+              <span>Batch:</span>
+              <strong><Link to={batchPath(deed.batchId)}>#{deed.batchId}</Link> · deed {deed.deedIndex}</strong>
+            </div>
             <div className="info-item">
               <span>Date Registered:</span>
               <strong>{new Date(deed.timestamp * 1000).toLocaleDateString()}</strong>
@@ -696,11 +1276,11 @@ const DeedDetailModal: React.FC<DeedDetailModalProps> = ({
             <div className="encrypted-data-grid">
               <div className="encrypted-data-item">
                 <span>Owner ID:</span>
-                <div className="encrypted-value">{deed.encryptedOwner.substring(0, 15)}...</div>
+                <div className="encrypted-value">{shortHandle(handles?.encryptedOwnerIdentity, 15)}</div>
               </div>
               <div className="encrypted-data-item">
                 <span>Property Value:</span>
-                <div className="encrypted-value">{deed.encryptedValue.substring(0, 15)}...</div>
+                <div className="encrypted-value">{shortHandle(handles?.encryptedPropertyValue, 15)}</div>
               </div>
             </div>
             <div className="fhe-tag">
@@ -710,7 +1290,7 @@ const DeedDetailModal: React.FC<DeedDetailModalProps> = ({
             <button 
               className="decrypt-btn" 
               onClick={handleDecrypt} 
-              disabled={isDecrypting}
+              disabled={isDecrypting || !handles}
             >
               {isDecrypting ? (
                 <span>Decrypting...</span>
@@ -739,20 +1319,40 @@ const DeedDetailModal: React.FC<DeedDetailModalProps> = ({
           <div className="transaction-history">
             <h3>Transaction History</h3>
             <div className="history-list">
-              {deed.transactionHistory.map((tx, index) => (
-                <div className="history-item" key={index}>
-                  <div className="history-icon">🔄</div>
-                  <div className="history-details">
-                    <div className="history-text">{tx}</div>
-                    <div className="history-time">{new Date(deed.timestamp * 1000).toLocaleString()}</div>
+              {deed.history.map((entry, i) => {
+                const url = entry.transactionHash ? explorerTxUrl(network, entry.transactionHash) : null;
+                const hash = entry.transactionHash ? `${entry.transactionHash.substring(0, 10)}...` : null;
+                return (
+                  <div className="history-item" key={`${entry.kind}:${entry.blockNumber}:${i}`}>
+                    <div className="history-icon">{HISTORY_ICONS[entry.kind]}</div>
+                    <div className="history-details">
+                      <div className="history-text">
+                        {DEED_HISTORY_LABELS[entry.kind]}
+                        <span className={`history-role ${entry.role}`}>{DEED_HISTORY_ROLES[entry.role]}</span>
+                        {entry.actor
+                          ? <span className="history-actor">{entry.actor.substring(0, 6)}...{entry.actor.substring(entry.actor.length - 4)}</span>
+                          : entry.role === 'owner' && <span className="history-actor redacted">address redacted</span>}
+                      </div>
+                      {entry.kind === 'transferred' && entry.role === 'owner' && (
+                        <div className="history-note">
+                          Takes effect only if the encrypted ownership proof matched. The app does not show who sent it, but the transaction is public and names its sender.
+                        </div>
+                      )}
+                      <div className="history-time">
+                        {new Date(entry.timestamp * 1000).toLocaleString()}
+                        {" · block "}{entry.blockNumber}
+                        {hash && <>{" · "}{url ? <a href={url} target="_blank" rel="noopener noreferrer">{hash}</a> : hash}</>}
+                      </div>
+                    </div>
                   </div>
-                </div>
-              ))}
+                );
+              })}
             </div>
           </div>
         </div>
         
         <div className="modal-footer">
+          <button onClick={onTransfer} className="transfer-btn">Transfer Deed</button>
           <button onClick={onClose} className="close-btn">Close</button>
         </div>
       </div>
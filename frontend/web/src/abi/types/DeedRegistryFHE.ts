@@ -0,0 +1,1088 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import type {
+  BaseContract,
+  BigNumberish,
+  BytesLike,
+  FunctionFragment,
+  Result,
+  Interface,
+  EventFragment,
+  AddressLike,
+  ContractRunner,
+  ContractMethod,
+  Listener,
+} from "ethers";
+import type {
+  TypedContractEvent,
+  TypedDeferredTopicFilter,
+  TypedEventLog,
+  TypedLogDescription,
+  TypedListener,
+  TypedContractMethod,
+} from "./common";
+
+export declare namespace DeedRegistryFHE {
+  export type EncryptedDeedStruct = {
+    encryptedOwnerIdentity: BytesLike;
+    encryptedPropertyId: BytesLike;
+    encryptedTransactionCount: BytesLike;
+    encryptedLastTransactionTimestamp: BytesLike;
+    encryptedPropertyValue: BytesLike;
+  };
+
+  export type EncryptedDeedStructOutput = [
+    encryptedOwnerIdentity: string,
+    encryptedPropertyId: string,
+    encryptedTransactionCount: string,
+    encryptedLastTransactionTimestamp: string,
+    encryptedPropertyValue: string
+  ] & {
+    encryptedOwnerIdentity: string;
+    encryptedPropertyId: string;
+    encryptedTransactionCount: string;
+    encryptedLastTransactionTimestamp: string;
+    encryptedPropertyValue: string;
+  };
+}
+
+export interface DeedRegistryFHEInterface extends Interface {
+  getFunction(
+    nameOrSignature:
+      | "MAX_DEED_PAGE_SIZE"
+      | "addProvider"
+      | "batchClosed"
+      | "batchPropertyCount"
+      | "closeBatch"
+      | "cooldownSeconds"
+      | "currentBatchId"
+      | "decryptionContexts"
+      | "deedRegistrar"
+      | "deeds"
+      | "getDeedPage"
+      | "lastDecryptionRequestTime"
+      | "lastSubmissionTime"
+      | "myCallback"
+      | "openBatch"
+      | "owner"
+      | "paused"
+      | "protocolId"
+      | "providers"
+      | "registerDeed"
+      | "removeProvider"
+      | "requestBatchValueSumDecryption"
+      | "setCooldownSeconds"
+      | "setPaused"
+      | "transferDeed"
+      | "transferOwnership"
+  ): FunctionFragment;
+
+  getEvent(
+    nameOrSignatureOrTopic:
+      | "BatchClosed"
+      | "BatchOpened"
+      | "ContractPaused"
+      | "ContractUnpaused"
+      | "CooldownSecondsSet"
+      | "DecryptionCompleted"
+      | "DecryptionFulfilled"
+      | "DecryptionRequested"
+      | "DeedAccessGranted"
+      | "DeedRegistered"
+      | "DeedTransferred"
+      | "OwnershipTransferred"
+      | "ProviderAdded"
+      | "ProviderRemoved"
+  ): EventFragment;
+
+  encodeFunctionData(
+    functionFragment: "MAX_DEED_PAGE_SIZE",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "addProvider",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "batchClosed",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "batchPropertyCount",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "closeBatch",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "cooldownSeconds",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "currentBatchId",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "decryptionContexts",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "deedRegistrar",
+    values: [BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "deeds",
+    values: [BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getDeedPage",
+    values: [BigNumberish, BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "lastDecryptionRequestTime",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "lastSubmissionTime",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "myCallback",
+    values: [BigNumberish, BytesLike, BytesLike]
+  ): string;
+  encodeFunctionData(functionFragment: "openBatch", values?: undefined): string;
+  encodeFunctionData(functionFragment: "owner", values?: undefined): string;
+  encodeFunctionData(functionFragment: "paused", values?: undefined): string;
+  encodeFunctionData(
+    functionFragment: "protocolId",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "providers",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "registerDeed",
+    values: [BytesLike, BytesLike, BytesLike, BytesLike, BytesLike, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "removeProvider",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "requestBatchValueSumDecryption",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setCooldownSeconds",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(functionFragment: "setPaused", values: [boolean]): string;
+  encodeFunctionData(
+    functionFragment: "transferDeed",
+    values: [
+      BigNumberish,
+      BigNumberish,
+      BytesLike,
+      BytesLike,
+      BytesLike,
+      AddressLike
+    ]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "transferOwnership",
+    values: [AddressLike]
+  ): string;
+
+  decodeFunctionResult(
+    functionFragment: "MAX_DEED_PAGE_SIZE",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "addProvider",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "batchClosed",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "batchPropertyCount",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "closeBatch", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "cooldownSeconds",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "currentBatchId",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "decryptionContexts",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "deedRegistrar",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "deeds", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "getDeedPage",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "lastDecryptionRequestTime",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "lastSubmissionTime",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "myCallback", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "openBatch", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "owner", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "paused", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "protocolId", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "providers", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "registerDeed",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "removeProvider",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "requestBatchValueSumDecryption",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "setCooldownSeconds",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "setPaused", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "transferDeed",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "transferOwnership",
+    data: BytesLike
+  ): Result;
+}
+
+export namespace BatchClosedEvent {
+  export type InputTuple = [batchId: BigNumberish];
+  export type OutputTuple = [batchId: bigint];
+  export interface OutputObject {
+    batchId: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace BatchOpenedEvent {
+  export type InputTuple = [batchId: BigNumberish];
+  export type OutputTuple = [batchId: bigint];
+  export interface OutputObject {
+    batchId: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ContractPausedEvent {
+  export type InputTuple = [account: AddressLike];
+  export type OutputTuple = [account: string];
+  export interface OutputObject {
+    account: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ContractUnpausedEvent {
+  export type InputTuple = [account: AddressLike];
+  export type OutputTuple = [account: string];
+  export interface OutputObject {
+    account: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace CooldownSecondsSetEvent {
+  export type InputTuple = [
+    oldCooldown: BigNumberish,
+    newCooldown: BigNumberish
+  ];
+  export type OutputTuple = [oldCooldown: bigint, newCooldown: bigint];
+  export interface OutputObject {
+    oldCooldown: bigint;
+    newCooldown: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace DecryptionCompletedEvent {
+  export type InputTuple = [
+    requestId: BigNumberish,
+    batchId: BigNumberish,
+    propertyValueSum: BigNumberish
+  ];
+  export type OutputTuple = [
+    requestId: bigint,
+    batchId: bigint,
+    propertyValueSum: bigint
+  ];
+  export interface OutputObject {
+    requestId: bigint;
+    batchId: bigint;
+    propertyValueSum: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace DecryptionFulfilledEvent {
+  export type InputTuple = [requestID: BigNumberish];
+  export type OutputTuple = [requestID: bigint];
+  export interface OutputObject {
+    requestID: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace DecryptionRequestedEvent {
+  export type InputTuple = [requestId: BigNumberish, batchId: BigNumberish];
+  export type OutputTuple = [requestId: bigint, batchId: bigint];
+  export interface OutputObject {
+    requestId: bigint;
+    batchId: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace DeedAccessGrantedEvent {
+  export type InputTuple = [
+    batchId: BigNumberish,
+    deedIndex: BigNumberish,
+    grantedBy: AddressLike
+  ];
+  export type OutputTuple = [
+    batchId: bigint,
+    deedIndex: bigint,
+    grantedBy: string
+  ];
+  export interface OutputObject {
+    batchId: bigint;
+    deedIndex: bigint;
+    grantedBy: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace DeedRegisteredEvent {
+  export type InputTuple = [
+    provider: AddressLike,
+    batchId: BigNumberish,
+    deedIndex: BigNumberish
+  ];
+  export type OutputTuple = [
+    provider: string,
+    batchId: bigint,
+    deedIndex: bigint
+  ];
+  export interface OutputObject {
+    provider: string;
+    batchId: bigint;
+    deedIndex: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace DeedTransferredEvent {
+  export type InputTuple = [
+    batchId: BigNumberish,
+    deedIndex: BigNumberish,
+    byRegistrar: boolean
+  ];
+  export type OutputTuple = [
+    batchId: bigint,
+    deedIndex: bigint,
+    byRegistrar: boolean
+  ];
+  export interface OutputObject {
+    batchId: bigint;
+    deedIndex: bigint;
+    byRegistrar: boolean;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace OwnershipTransferredEvent {
+  export type InputTuple = [previousOwner: AddressLike, newOwner: AddressLike];
+  export type OutputTuple = [previousOwner: string, newOwner: string];
+  export interface OutputObject {
+    previousOwner: string;
+    newOwner: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ProviderAddedEvent {
+  export type InputTuple = [provider: AddressLike];
+  export type OutputTuple = [provider: string];
+  export interface OutputObject {
+    provider: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ProviderRemovedEvent {
+  export type InputTuple = [provider: AddressLike];
+  export type OutputTuple = [provider: string];
+  export interface OutputObject {
+    provider: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export interface DeedRegistryFHE extends BaseContract {
+  connect(runner?: ContractRunner | null): DeedRegistryFHE;
+  waitForDeployment(): Promise<this>;
+
+  interface: DeedRegistryFHEInterface;
+
+  queryFilter<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+  queryFilter<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+
+  on<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  on<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  once<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  once<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  listeners<TCEvent extends TypedContractEvent>(
+    event: TCEvent
+  ): Promise<Array<TypedListener<TCEvent>>>;
+  listeners(eventName?: string): Promise<Array<Listener>>;
+  removeAllListeners<TCEvent extends TypedContractEvent>(
+    event?: TCEvent
+  ): Promise<this>;
+
+  MAX_DEED_PAGE_SIZE: TypedContractMethod<[], [bigint], "view">;
+
+  addProvider: TypedContractMethod<
+    [provider: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+
+  batchClosed: TypedContractMethod<[arg0: BigNumberish], [boolean], "view">;
+
+  batchPropertyCount: TypedContractMethod<
+    [arg0: BigNumberish],
+    [bigint],
+    "view"
+  >;
+
+  closeBatch: TypedContractMethod<
+    [batchId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  cooldownSeconds: TypedContractMethod<[], [bigint], "view">;
+
+  currentBatchId: TypedContractMethod<[], [bigint], "view">;
+
+  decryptionContexts: TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [bigint, string, boolean] & {
+        batchId: bigint;
+        stateHash: string;
+        processed: boolean;
+      }
+    ],
+    "view"
+  >;
+
+  deedRegistrar: TypedContractMethod<
+    [arg0: BigNumberish, arg1: BigNumberish],
+    [string],
+    "view"
+  >;
+
+  deeds: TypedContractMethod<
+    [arg0: BigNumberish, arg1: BigNumberish],
+    [
+      [string, string, string, string, string] & {
+        encryptedOwnerIdentity: string;
+        encryptedPropertyId: string;
+        encryptedTransactionCount: string;
+        encryptedLastTransactionTimestamp: string;
+        encryptedPropertyValue: string;
+      }
+    ],
+    "view"
+  >;
+
+  getDeedPage: TypedContractMethod<
+    [batchId: BigNumberish, offset: BigNumberish, limit: BigNumberish],
+    [
+      [DeedRegistryFHE.EncryptedDeedStructOutput[], string[], bigint] & {
+        page: DeedRegistryFHE.EncryptedDeedStructOutput[];
+        registrars: string[];
+        total: bigint;
+      }
+    ],
+    "view"
+  >;
+
+  lastDecryptionRequestTime: TypedContractMethod<
+    [arg0: AddressLike],
+    [bigint],
+    "view"
+  >;
+
+  lastSubmissionTime: TypedContractMethod<
+    [arg0: AddressLike],
+    [bigint],
+    "view"
+  >;
+
+  myCallback: TypedContractMethod<
+    [requestId: BigNumberish, cleartexts: BytesLike, proof: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+
+  openBatch: TypedContractMethod<[], [void], "nonpayable">;
+
+  owner: TypedContractMethod<[], [string], "view">;
+
+  paused: TypedContractMethod<[], [boolean], "view">;
+
+  protocolId: TypedContractMethod<[], [bigint], "view">;
+
+  providers: TypedContractMethod<[arg0: AddressLike], [boolean], "view">;
+
+  registerDeed: TypedContractMethod<
+    [
+      encryptedOwnerIdentity: BytesLike,
+      encryptedPropertyId: BytesLike,
+      encryptedTransactionCount: BytesLike,
+      encryptedLastTransactionTimestamp: BytesLike,
+      encryptedPropertyValue: BytesLike,
+      inputProof: BytesLike
+    ],
+    [void],
+    "nonpayable"
+  >;
+
+  removeProvider: TypedContractMethod<
+    [provider: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+
+  requestBatchValueSumDecryption: TypedContractMethod<
+    [batchId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  setCooldownSeconds: TypedContractMethod<
+    [newCooldownSeconds: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  setPaused: TypedContractMethod<[_paused: boolean], [void], "nonpayable">;
+
+  transferDeed: TypedContractMethod<
+    [
+      batchId: BigNumberish,
+      deedIndex: BigNumberish,
+      encryptedCurrentOwner: BytesLike,
+      encryptedNewOwner: BytesLike,
+      inputProof: BytesLike,
+      recipient: AddressLike
+    ],
+    [void],
+    "nonpayable"
+  >;
+
+  transferOwnership: TypedContractMethod<
+    [newOwner: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+
+  getFunction<T extends ContractMethod = ContractMethod>(
+    key: string | FunctionFragment
+  ): T;
+
+  getFunction(
+    nameOrSignature: "MAX_DEED_PAGE_SIZE"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "addProvider"
+  ): TypedContractMethod<[provider: AddressLike], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "batchClosed"
+  ): TypedContractMethod<[arg0: BigNumberish], [boolean], "view">;
+  getFunction(
+    nameOrSignature: "batchPropertyCount"
+  ): TypedContractMethod<[arg0: BigNumberish], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "closeBatch"
+  ): TypedContractMethod<[batchId: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "cooldownSeconds"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "currentBatchId"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "decryptionContexts"
+  ): TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [bigint, string, boolean] & {
+        batchId: bigint;
+        stateHash: string;
+        processed: boolean;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "deedRegistrar"
+  ): TypedContractMethod<
+    [arg0: BigNumberish, arg1: BigNumberish],
+    [string],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "deeds"
+  ): TypedContractMethod<
+    [arg0: BigNumberish, arg1: BigNumberish],
+    [
+      [string, string, string, string, string] & {
+        encryptedOwnerIdentity: string;
+        encryptedPropertyId: string;
+        encryptedTransactionCount: string;
+        encryptedLastTransactionTimestamp: string;
+        encryptedPropertyValue: string;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getDeedPage"
+  ): TypedContractMethod<
+    [batchId: BigNumberish, offset: BigNumberish, limit: BigNumberish],
+    [
+      [DeedRegistryFHE.EncryptedDeedStructOutput[], string[], bigint] & {
+        page: DeedRegistryFHE.EncryptedDeedStructOutput[];
+        registrars: string[];
+        total: bigint;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "lastDecryptionRequestTime"
+  ): TypedContractMethod<[arg0: AddressLike], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "lastSubmissionTime"
+  ): TypedContractMethod<[arg0: AddressLike], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "myCallback"
+  ): TypedContractMethod<
+    [requestId: BigNumberish, cleartexts: BytesLike, proof: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "openBatch"
+  ): TypedContractMethod<[], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "owner"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "paused"
+  ): TypedContractMethod<[], [boolean], "view">;
+  getFunction(
+    nameOrSignature: "protocolId"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "providers"
+  ): TypedContractMethod<[arg0: AddressLike], [boolean], "view">;
+  getFunction(
+    nameOrSignature: "registerDeed"
+  ): TypedContractMethod<
+    [
+      encryptedOwnerIdentity: BytesLike,
+      encryptedPropertyId: BytesLike,
+      encryptedTransactionCount: BytesLike,
+      encryptedLastTransactionTimestamp: BytesLike,
+      encryptedPropertyValue: BytesLike,
+      inputProof: BytesLike
+    ],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "removeProvider"
+  ): TypedContractMethod<[provider: AddressLike], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "requestBatchValueSumDecryption"
+  ): TypedContractMethod<[batchId: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "setCooldownSeconds"
+  ): TypedContractMethod<
+    [newCooldownSeconds: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "setPaused"
+  ): TypedContractMethod<[_paused: boolean], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "transferDeed"
+  ): TypedContractMethod<
+    [
+      batchId: BigNumberish,
+      deedIndex: BigNumberish,
+      encryptedCurrentOwner: BytesLike,
+      encryptedNewOwner: BytesLike,
+      inputProof: BytesLike,
+      recipient: AddressLike
+    ],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "transferOwnership"
+  ): TypedContractMethod<[newOwner: AddressLike], [void], "nonpayable">;
+
+  getEvent(
+    key: "BatchClosed"
+  ): TypedContractEvent<
+    BatchClosedEvent.InputTuple,
+    BatchClosedEvent.OutputTuple,
+    BatchClosedEvent.OutputObject
+  >;
+  getEvent(
+    key: "BatchOpened"
+  ): TypedContractEvent<
+    BatchOpenedEvent.InputTuple,
+    BatchOpenedEvent.OutputTuple,
+    BatchOpenedEvent.OutputObject
+  >;
+  getEvent(
+    key: "ContractPaused"
+  ): TypedContractEvent<
+    ContractPausedEvent.InputTuple,
+    ContractPausedEvent.OutputTuple,
+    ContractPausedEvent.OutputObject
+  >;
+  getEvent(
+    key: "ContractUnpaused"
+  ): TypedContractEvent<
+    ContractUnpausedEvent.InputTuple,
+    ContractUnpausedEvent.OutputTuple,
+    ContractUnpausedEvent.OutputObject
+  >;
+  getEvent(
+    key: "CooldownSecondsSet"
+  ): TypedContractEvent<
+    CooldownSecondsSetEvent.InputTuple,
+    CooldownSecondsSetEvent.OutputTuple,
+    CooldownSecondsSetEvent.OutputObject
+  >;
+  getEvent(
+    key: "DecryptionCompleted"
+  ): TypedContractEvent<
+    DecryptionCompletedEvent.InputTuple,
+    DecryptionCompletedEvent.OutputTuple,
+    DecryptionCompletedEvent.OutputObject
+  >;
+  getEvent(
+    key: "DecryptionFulfilled"
+  ): TypedContractEvent<
+    DecryptionFulfilledEvent.InputTuple,
+    DecryptionFulfilledEvent.OutputTuple,
+    DecryptionFulfilledEvent.OutputObject
+  >;
+  getEvent(
+    key: "DecryptionRequested"
+  ): TypedContractEvent<
+    DecryptionRequestedEvent.InputTuple,
+    DecryptionRequestedEvent.OutputTuple,
+    DecryptionRequestedEvent.OutputObject
+  >;
+  getEvent(
+    key: "DeedAccessGranted"
+  ): TypedContractEvent<
+    DeedAccessGrantedEvent.InputTuple,
+    DeedAccessGrantedEvent.OutputTuple,
+    DeedAccessGrantedEvent.OutputObject
+  >;
+  getEvent(
+    key: "DeedRegistered"
+  ): TypedContractEvent<
+    DeedRegisteredEvent.InputTuple,
+    DeedRegisteredEvent.OutputTuple,
+    DeedRegisteredEvent.OutputObject
+  >;
+  getEvent(
+    key: "DeedTransferred"
+  ): TypedContractEvent<
+    DeedTransferredEvent.InputTuple,
+    DeedTransferredEvent.OutputTuple,
+    DeedTransferredEvent.OutputObject
+  >;
+  getEvent(
+    key: "OwnershipTransferred"
+  ): TypedContractEvent<
+    OwnershipTransferredEvent.InputTuple,
+    OwnershipTransferredEvent.OutputTuple,
+    OwnershipTransferredEvent.OutputObject
+  >;
+  getEvent(
+    key: "ProviderAdded"
+  ): TypedContractEvent<
+    ProviderAddedEvent.InputTuple,
+    ProviderAddedEvent.OutputTuple,
+    ProviderAddedEvent.OutputObject
+  >;
+  getEvent(
+    key: "ProviderRemoved"
+  ): TypedContractEvent<
+    ProviderRemovedEvent.InputTuple,
+    ProviderRemovedEvent.OutputTuple,
+    ProviderRemovedEvent.OutputObject
+  >;
+
+  filters: {
+    "BatchClosed(uint256)": TypedContractEvent<
+      BatchClosedEvent.InputTuple,
+      BatchClosedEvent.OutputTuple,
+      BatchClosedEvent.OutputObject
+    >;
+    BatchClosed: TypedContractEvent<
+      BatchClosedEvent.InputTuple,
+      BatchClosedEvent.OutputTuple,
+      BatchClosedEvent.OutputObject
+    >;
+
+    "BatchOpened(uint256)": TypedContractEvent<
+      BatchOpenedEvent.InputTuple,
+      BatchOpenedEvent.OutputTuple,
+      BatchOpenedEvent.OutputObject
+    >;
+    BatchOpened: TypedContractEvent<
+      BatchOpenedEvent.InputTuple,
+      BatchOpenedEvent.OutputTuple,
+      BatchOpenedEvent.OutputObject
+    >;
+
+    "ContractPaused(address)": TypedContractEvent<
+      ContractPausedEvent.InputTuple,
+      ContractPausedEvent.OutputTuple,
+      ContractPausedEvent.OutputObject
+    >;
+    ContractPaused: TypedContractEvent<
+      ContractPausedEvent.InputTuple,
+      ContractPausedEvent.OutputTuple,
+      ContractPausedEvent.OutputObject
+    >;
+
+    "ContractUnpaused(address)": TypedContractEvent<
+      ContractUnpausedEvent.InputTuple,
+      ContractUnpausedEvent.OutputTuple,
+      ContractUnpausedEvent.OutputObject
+    >;
+    ContractUnpaused: TypedContractEvent<
+      ContractUnpausedEvent.InputTuple,
+      ContractUnpausedEvent.OutputTuple,
+      ContractUnpausedEvent.OutputObject
+    >;
+
+    "CooldownSecondsSet(uint256,uint256)": TypedContractEvent<
+      CooldownSecondsSetEvent.InputTuple,
+      CooldownSecondsSetEvent.OutputTuple,
+      CooldownSecondsSetEvent.OutputObject
+    >;
+    CooldownSecondsSet: TypedContractEvent<
+      CooldownSecondsSetEvent.InputTuple,
+      CooldownSecondsSetEvent.OutputTuple,
+      CooldownSecondsSetEvent.OutputObject
+    >;
+
+    "DecryptionCompleted(uint256,uint256,uint256)": TypedContractEvent<
+      DecryptionCompletedEvent.InputTuple,
+      DecryptionCompletedEvent.OutputTuple,
+      DecryptionCompletedEvent.OutputObject
+    >;
+    DecryptionCompleted: TypedContractEvent<
+      DecryptionCompletedEvent.InputTuple,
+      DecryptionCompletedEvent.OutputTuple,
+      DecryptionCompletedEvent.OutputObject
+    >;
+
+    "DecryptionFulfilled(uint256)": TypedContractEvent<
+      DecryptionFulfilledEvent.InputTuple,
+      DecryptionFulfilledEvent.OutputTuple,
+      DecryptionFulfilledEvent.OutputObject
+    >;
+    DecryptionFulfilled: TypedContractEvent<
+      DecryptionFulfilledEvent.InputTuple,
+      DecryptionFulfilledEvent.OutputTuple,
+      DecryptionFulfilledEvent.OutputObject
+    >;
+
+    "DecryptionRequested(uint256,uint256)": TypedContractEvent<
+      DecryptionRequestedEvent.InputTuple,
+      DecryptionRequestedEvent.OutputTuple,
+      DecryptionRequestedEvent.OutputObject
+    >;
+    DecryptionRequested: TypedContractEvent<
+      DecryptionRequestedEvent.InputTuple,
+      DecryptionRequestedEvent.OutputTuple,
+      DecryptionRequestedEvent.OutputObject
+    >;
+
+    "DeedAccessGranted(uint256,uint256,address)": TypedContractEvent<
+      DeedAccessGrantedEvent.InputTuple,
+      DeedAccessGrantedEvent.OutputTuple,
+      DeedAccessGrantedEvent.OutputObject
+    >;
+    DeedAccessGranted: TypedContractEvent<
+      DeedAccessGrantedEvent.InputTuple,
+      DeedAccessGrantedEvent.OutputTuple,
+      DeedAccessGrantedEvent.OutputObject
+    >;
+
+    "DeedRegistered(address,uint256,uint256)": TypedContractEvent<
+      DeedRegisteredEvent.InputTuple,
+      DeedRegisteredEvent.OutputTuple,
+      DeedRegisteredEvent.OutputObject
+    >;
+    DeedRegistered: TypedContractEvent<
+      DeedRegisteredEvent.InputTuple,
+      DeedRegisteredEvent.OutputTuple,
+      DeedRegisteredEvent.OutputObject
+    >;
+
+    "DeedTransferred(uint256,uint256,bool)": TypedContractEvent<
+      DeedTransferredEvent.InputTuple,
+      DeedTransferredEvent.OutputTuple,
+      DeedTransferredEvent.OutputObject
+    >;
+    DeedTransferred: TypedContractEvent<
+      DeedTransferredEvent.InputTuple,
+      DeedTransferredEvent.OutputTuple,
+      DeedTransferredEvent.OutputObject
+    >;
+
+    "OwnershipTransferred(address,address)": TypedContractEvent<
+      OwnershipTransferredEvent.InputTuple,
+      OwnershipTransferredEvent.OutputTuple,
+      OwnershipTransferredEvent.OutputObject
+    >;
+    OwnershipTransferred: TypedContractEvent<
+      OwnershipTransferredEvent.InputTuple,
+      OwnershipTransferredEvent.OutputTuple,
+      OwnershipTransferredEvent.OutputObject
+    >;
+
+    "ProviderAdded(address)": TypedContractEvent<
+      ProviderAddedEvent.InputTuple,
+      ProviderAddedEvent.OutputTuple,
+      ProviderAddedEvent.OutputObject
+    >;
+    ProviderAdded: TypedContractEvent<
+      ProviderAddedEvent.InputTuple,
+      ProviderAddedEvent.OutputTuple,
+      ProviderAddedEvent.OutputObject
+    >;
+
+    "ProviderRemoved(address)": TypedContractEvent<
+      ProviderRemovedEvent.InputTuple,
+      ProviderRemovedEvent.OutputTuple,
+      ProviderRemovedEvent.OutputObject
+    >;
+    ProviderRemoved: TypedContractEvent<
+      ProviderRemovedEvent.InputTuple,
+      ProviderRemovedEvent.OutputTuple,
+      ProviderRemovedEvent.OutputObject
+    >;
+  };
+}
@@ -0,0 +1,5 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+export { DeedRegistryFHE__factory } from "./DeedRegistryFHE__factory";
+export { UniversalAdapter__factory } from "./UniversalAdapter__factory";
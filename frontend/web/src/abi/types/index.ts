@@ -0,0 +1,8 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+export type { DeedRegistryFHE } from "./DeedRegistryFHE";
+export type { UniversalAdapter } from "./UniversalAdapter";
+export * as factories from "./factories";
+export { DeedRegistryFHE__factory } from "./factories/DeedRegistryFHE__factory";
+export { UniversalAdapter__factory } from "./factories/UniversalAdapter__factory";
@@ -0,0 +1,244 @@
+// activityHistory.ts
+import { ethers } from "ethers";
+import { DeedRegistryClient, getBlockTimestamps, queryRegistryEvents } from "../../../sdk";
+import type { RegistryEvent, RegistryEventName } from "../../../sdk";
+import { ACTIVITY_STORE, ACTIVITY_SYNC_STORE, BY_ACCOUNT, openRegistryDb, promisify, registryKey, transactionDone } from "./registryDb";
+
+export type ActivityKind = 'register' | 'transfer' | 'decrypt' | 'decrypt-request' | 'decrypt-result' | 'admin';
+
+// One row per (account, event) so that an account's history can be paged straight
+// off the ["accountKey", "timestamp"] index.
+export interface ActivityRecord {
+  id: string;
+  accountKey: string;
+  kind: ActivityKind;
+  source: 'chain' | 'local';
+  timestamp: number;
+  details: string;
+  blockNumber?: number;
+  transactionHash?: string;
+}
+
+export interface ActivityPage {
+  records: ActivityRecord[];
+  total: number;
+}
+
+interface ActivitySyncState {
+  // `${chainId}:${registryAddress}`, lower-cased
+  key: string;
+  registryAddress: string;
+  lastSyncedBlock: number;
+  // requestId -> requester, so a later DecryptionCompleted can be attributed
+  decryptionRequesters: Record<string, string>;
+}
+
+export const ACTIVITY_PAGE_SIZE = 10;
+
+const ACTIVITY_EVENTS: RegistryEventName[] = [
+  "DeedRegistered",
+  "DeedTransferred",
+  "DeedAccessGranted",
+  "DecryptionRequested",
+  "DecryptionCompleted",
+  "OwnershipTransferred",
+  "ProviderAdded",
+  "ProviderRemoved",
+  "ContractPaused",
+  "ContractUnpaused",
+  "CooldownSecondsSet",
+  "BatchOpened",
+  "BatchClosed"
+];
+
+const accountKey = (chainId: number, registryAddress: string, account: string) => `${registryKey(chainId, registryAddress)}:${account.toLowerCase()}`;
+const shortAddress = (address: string) => `${address.substring(0, 6)}...${address.substring(address.length - 4)}`;
+
+const emptySyncState = (chainId: number, registryAddress: string, startBlock: number): ActivitySyncState => ({
+  key: registryKey(chainId, registryAddress),
+  registryAddress: registryAddress.toLowerCase(),
+  lastSyncedBlock: startBlock - 1,
+  decryptionRequesters: {}
+});
+
+async function loadSyncState(db: IDBDatabase, chainId: number, registryAddress: string, startBlock: number): Promise<ActivitySyncState> {
+  const tx = db.transaction(ACTIVITY_SYNC_STORE, "readonly");
+  const stored = await promisify<ActivitySyncState | undefined>(tx.objectStore(ACTIVITY_SYNC_STORE).get(registryKey(chainId, registryAddress)));
+  return stored ?? emptySyncState(chainId, registryAddress, startBlock);
+}
+
+// Deletes the chain rows synced for a registry; rows recorded locally are kept
+async function clearChainActivity(db: IDBDatabase, chainId: number, registryAddress: string): Promise<void> {
+  const prefix = `${registryKey(chainId, registryAddress)}:`;
+  const tx = db.transaction(ACTIVITY_STORE, "readwrite");
+  // Every account key of the registry sorts between the prefix and the prefix followed by U+FFFF
+  const range = IDBKeyRange.bound([prefix, -Infinity], [`${prefix}\uffff`, Infinity]);
+  const request = tx.objectStore(ACTIVITY_STORE).index(BY_ACCOUNT).openCursor(range);
+  request.onsuccess = () => {
+    const cursor = request.result;
+    if (!cursor) return;
+    if ((cursor.value as ActivityRecord).source === 'chain') cursor.delete();
+    cursor.continue();
+  };
+  await transactionDone(tx);
+}
+
+type ActivityRow = { account: string, kind: ActivityKind, details: string };
+
+// Turns one registry event into a history row for each account that took part in it.
+// `sender` is the transaction sender, used for owner-only calls whose events omit the caller.
+function describeEvent(event: RegistryEvent, sender: string, requesters: Record<string, string>): ActivityRow[] {
+  switch (event.name) {
+    case "DeedRegistered":
+      return [{ account: event.provider, kind: 'register', details: `Registered deed #${event.deedIndex} in batch ${event.batchId}` }];
+    case "DeedTransferred":
+      return [{ account: sender, kind: 'transfer', details: `Submitted a confidential transfer of deed #${event.deedIndex} in batch ${event.batchId}` }];
+    case "DeedAccessGranted":
+      return [{ account: event.grantedBy, kind: 'transfer', details: `Granted the transfer recipient access to deed #${event.deedIndex} in batch ${event.batchId}` }];
+    case "DecryptionRequested":
+      return [{ account: sender, kind: 'decrypt-request', details: `Requested value-sum decryption of batch ${event.batchId} (request #${event.requestId})` }];
+    case "DecryptionCompleted": {
+      const requester = requesters[event.requestId.toString()];
+      return requester
+        ? [{ account: requester, kind: 'decrypt-result', details: `Value-sum decryption of batch ${event.batchId} completed (request #${event.requestId})` }]
+        : [];
+    }
+    case "OwnershipTransferred":
+      // The constructor emits a transfer from the zero address
+      if (event.previousOwner === ethers.ZeroAddress) {
+        return [{ account: event.newOwner, kind: 'admin', details: "Deployed the registry as owner" }];
+      }
+      return [
+        { account: event.previousOwner, kind: 'admin', details: `Transferred registry ownership to ${shortAddress(event.newOwner)}` },
+        { account: event.newOwner, kind: 'admin', details: `Received registry ownership from ${shortAddress(event.previousOwner)}` }
+      ];
+    case "ProviderAdded":
+      return [
+        { account: sender, kind: 'admin', details: `Added provider ${shortAddress(event.provider)}` },
+        { account: event.provider, kind: 'admin', details: "Approved as a deed provider" }
+      ];
+    case "ProviderRemoved":
+      return [
+        { account: sender, kind: 'admin', details: `Removed provider ${shortAddress(event.provider)}` },
+        { account: event.provider, kind: 'admin', details: "Removed as a deed provider" }
+      ];
+    case "ContractPaused":
+      return [{ account: event.account, kind: 'admin', details: "Paused the registry" }];
+    case "ContractUnpaused":
+      return [{ account: event.account, kind: 'admin', details: "Unpaused the registry" }];
+    case "CooldownSecondsSet":
+      return [{ account: sender, kind: 'admin', details: `Changed the submission cooldown from ${event.oldCooldown}s to ${event.newCooldown}s` }];
+    case "BatchOpened":
+      return [{ account: sender, kind: 'admin', details: `Opened batch ${event.batchId}` }];
+    case "BatchClosed":
+      return [{ account: sender, kind: 'admin', details: `Closed batch ${event.batchId}` }];
+  }
+}
+
+// Events that do not name their caller; the sender has to be read from the transaction.
+const needsSender = (event: RegistryEvent) =>
+  event.name !== "DeedRegistered" && event.name !== "DeedAccessGranted" && event.name !== "DecryptionCompleted" && event.name !== "OwnershipTransferred"
+  && event.name !== "ContractPaused" && event.name !== "ContractUnpaused";
+
+// Pulls registry events emitted since the last sync and stores them as per-account
+// history rows. Rows are keyed by transaction hash and log index, so re-syncing is idempotent.
+export async function syncActivityHistory(client: DeedRegistryClient, startBlock: number): Promise<void> {
+  const provider = client.contract.runner?.provider;
+  if (!provider) throw new Error("Registry client has no provider");
+
+  const db = await openRegistryDb();
+  const [{ chainId }, head] = await Promise.all([provider.getNetwork(), provider.getBlockNumber()]);
+  let state = await loadSyncState(db, Number(chainId), client.address, startBlock);
+  // A cursor ahead of the chain means a local node was restarted; its rows describe a chain
+  // that no longer exists, so they go too
+  if (state.lastSyncedBlock > head) {
+    await clearChainActivity(db, Number(chainId), client.address);
+    state = emptySyncState(Number(chainId), client.address, startBlock);
+  }
+  const { events, toBlock } = await queryRegistryEvents(client, ACTIVITY_EVENTS, { fromBlock: state.lastSyncedBlock + 1, toBlock: head });
+
+  const timestamps = await getBlockTimestamps(provider, events.map(e => e.blockNumber));
+  const senders = new Map<string, string>();
+  for (const event of events) {
+    if (!needsSender(event) || senders.has(event.transactionHash)) continue;
+    const tx = await provider.getTransaction(event.transactionHash);
+    if (!tx) throw new Error(`Transaction ${event.transactionHash} not found`);
+    senders.set(event.transactionHash, tx.from);
+  }
+
+  const requesters = { ...state.decryptionRequesters };
+  const records: ActivityRecord[] = [];
+  for (const event of events) {
+    const sender = senders.get(event.transactionHash) ?? "";
+    if (event.name === "DecryptionRequested") {
+      requesters[event.requestId.toString()] = sender;
+    }
+    for (const row of describeEvent(event, sender, requesters)) {
+      records.push({
+        id: `chain:${event.transactionHash}:${event.logIndex}:${row.account.toLowerCase()}`,
+        accountKey: accountKey(Number(chainId), client.address, row.account),
+        kind: row.kind,
+        source: 'chain',
+        timestamp: timestamps.get(event.blockNumber)!,
+        details: row.details,
+        blockNumber: event.blockNumber,
+        transactionHash: event.transactionHash
+      });
+    }
+    if (event.name === "DecryptionCompleted") {
+      delete requesters[event.requestId.toString()];
+    }
+  }
+
+  // Rows and the sync cursor are written together so a failed write is simply retried
+  const tx = db.transaction([ACTIVITY_STORE, ACTIVITY_SYNC_STORE], "readwrite");
+  const activity = tx.objectStore(ACTIVITY_STORE);
+  for (const record of records) activity.put(record);
+  tx.objectStore(ACTIVITY_SYNC_STORE).put({ ...state, lastSyncedBlock: toBlock, decryptionRequesters: requesters });
+  await transactionDone(tx);
+}
+
+// Records an action that leaves no trace on-chain, such as an EIP-712 user decryption.
+export async function recordLocalActivity(chainId: number, registryAddress: string, account: string, kind: ActivityKind, details: string): Promise<void> {
+  const db = await openRegistryDb();
+  const tx = db.transaction(ACTIVITY_STORE, "readwrite");
+  const record: ActivityRecord = {
+    id: `local:${Date.now()}:${Math.random().toString(36).substring(2, 10)}`,
+    accountKey: accountKey(chainId, registryAddress, account),
+    kind,
+    source: 'local',
+    timestamp: Math.floor(Date.now() / 1000),
+    details
+  };
+  tx.objectStore(ACTIVITY_STORE).put(record);
+  await transactionDone(tx);
+}
+
+// Newest-first page of the account's history; `page` is zero-based.
+export async function loadActivityPage(chainId: number, registryAddress: string, account: string, page: number, pageSize = ACTIVITY_PAGE_SIZE): Promise<ActivityPage> {
+  const db = await openRegistryDb();
+  const key = accountKey(chainId, registryAddress, account);
+  const range = IDBKeyRange.bound([key, -Infinity], [key, Infinity]);
+  const index = db.transaction(ACTIVITY_STORE, "readonly").objectStore(ACTIVITY_STORE).index(BY_ACCOUNT);
+
+  const total = await promisify(index.count(range));
+  const records = await new Promise<ActivityRecord[]>((resolve, reject) => {
+    const rows: ActivityRecord[] = [];
+    let skipped = page * pageSize === 0;
+    const request = index.openCursor(range, "prev");
+    request.onerror = () => reject(request.error);
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (!cursor) return resolve(rows);
+      if (!skipped) {
+        skipped = true;
+        cursor.advance(page * pageSize);
+        return;
+      }
+      rows.push(cursor.value as ActivityRecord);
+      if (rows.length >= pageSize) return resolve(rows);
+      cursor.continue();
+    };
+  });
+  return { records, total };
+}
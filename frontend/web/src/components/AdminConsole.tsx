@@ -0,0 +1,358 @@
+import React, { useEffect, useState } from 'react';
+import { ethers } from 'ethers';
+import { getRegistryReadOnly, getRegistryWithSigner } from '../contract';
+import { getActiveNetwork } from '../networks';
+import { trackTransaction } from '../txTracker';
+import { DeedRegistryClient, describeRegistryError, loadProviderSet } from '../../../../sdk';
+import type { BatchState, RegistrySettings } from '../../../../sdk';
+
+type AdminMethod = 'openBatch' | 'closeBatch' | 'addProvider' | 'removeProvider' | 'setPaused' | 'setCooldownSeconds' | 'transferOwnership';
+
+interface PendingAction {
+  method: AdminMethod;
+  args: (string | bigint | boolean)[];
+  title: string;
+  warning?: string;
+  send: (registry: DeedRegistryClient) => Promise<ethers.ContractTransactionResponse>;
+}
+
+interface TxPreview {
+  from: string;
+  to: string;
+  signature: string;
+  data: string;
+  gasLimit: bigint | null;
+  // Set when the pre-flight estimate reverts; the action can still be cancelled
+  error: string | null;
+}
+
+interface AdminState {
+  settings: RegistrySettings;
+  currentBatch: BatchState | null;
+  providers: string[];
+}
+
+interface AdminConsoleProps {
+  address?: string;
+  // Called after a confirmed admin transaction so the rest of the app can resync
+  onChanged?: () => void;
+}
+
+const formatArg = (arg: string | bigint | boolean) => typeof arg === 'bigint' ? arg.toString() : String(arg);
+
+const AdminConsole: React.FC<AdminConsoleProps> = ({ address, onChanged }) => {
+  const [state, setState] = useState<AdminState | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [closeBatchId, setCloseBatchId] = useState("");
+  const [providerAddress, setProviderAddress] = useState("");
+  const [cooldownInput, setCooldownInput] = useState("");
+  const [newOwner, setNewOwner] = useState("");
+  const [formError, setFormError] = useState<string | null>(null);
+  const [pending, setPending] = useState<PendingAction | null>(null);
+  const [preview, setPreview] = useState<TxPreview | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+  const [result, setResult] = useState<{ status: 'success' | 'error', message: string } | null>(null);
+
+  const loadState = async () => {
+    setLoading(true);
+    setLoadError(null);
+    try {
+      // Owner, pause and batch state decide what the console offers, so they need two RPCs to agree
+      const registry = await getRegistryReadOnly({ quorum: true });
+      if (!registry) throw new Error("DeedRegistryFHE is not deployed at the configured address");
+      const settings = await registry.getSettings();
+      const [currentBatch, providers] = await Promise.all([
+        settings.currentBatchId > 0n ? registry.getBatch(settings.currentBatchId) : Promise.resolve(null),
+        loadProviderSet(registry, getActiveNetwork().registryDeployBlock)
+      ]);
+      setState({ settings, currentBatch, providers });
+      setCloseBatchId(settings.currentBatchId > 0n ? settings.currentBatchId.toString() : "");
+      setCooldownInput(settings.cooldownSeconds.toString());
+    } catch (e: any) {
+      console.error("Error loading registry settings:", e);
+      setLoadError(e.message || "Failed to load registry settings");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadState();
+  }, []);
+
+  const isOwner = !!address && !!state && state.settings.owner.toLowerCase() === address.toLowerCase();
+
+  // Validates the form input and builds the preview shown in the confirmation step
+  const review = async (build: () => PendingAction) => {
+    setFormError(null);
+    setResult(null);
+    let action: PendingAction;
+    try {
+      action = build();
+    } catch (e: any) {
+      setFormError(e.message);
+      return;
+    }
+
+    setPending(action);
+    setPreview(null);
+    try {
+      const registry = await getRegistryWithSigner();
+      const fn = registry.contract.getFunction(action.method);
+      const populated = await fn.populateTransaction(...action.args);
+      const from = await (registry.contract.runner as ethers.Signer).getAddress();
+      let gasLimit: bigint | null = null;
+      let error: string | null = null;
+      try {
+        gasLimit = await fn.estimateGas(...action.args);
+      } catch (e) {
+        error = await describeRegistryError(e, { client: registry, account: from });
+      }
+      setPreview({
+        from,
+        to: registry.address,
+        signature: fn.fragment.format("sighash"),
+        data: populated.data,
+        gasLimit,
+        error
+      });
+    } catch (e: any) {
+      setPending(null);
+      setFormError(e.message || "Failed to prepare transaction");
+    }
+  };
+
+  const confirm = async () => {
+    if (!pending) return;
+    setSubmitting(true);
+    let registry: DeedRegistryClient | undefined;
+    try {
+      registry = await getRegistryWithSigner();
+      const tx = await pending.send(registry);
+      trackTransaction(tx, pending.title);
+      const receipt = await tx.wait();
+      setResult({ status: 'success', message: `${pending.title} mined in block ${receipt?.blockNumber}. Confirmations are followed in the transaction tray.` });
+      setPending(null);
+      setPreview(null);
+      await loadState();
+      onChanged?.();
+    } catch (e) {
+      setResult({ status: 'error', message: `${pending.title} failed: ${await describeRegistryError(e, { client: registry, account: address })}` });
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const requireAddress = (value: string, label: string) => {
+    const trimmed = value.trim();
+    if (!ethers.isAddress(trimmed)) throw new Error(`${label} is not a valid address`);
+    return ethers.getAddress(trimmed);
+  };
+
+  const openBatchAction = (): PendingAction => ({
+    method: 'openBatch',
+    args: [],
+    title: `Open batch ${state!.settings.currentBatchId + 1n}`,
+    warning: state!.currentBatch && !state!.currentBatch.closed
+      ? `Batch ${state!.currentBatch.batchId} is still open; new deeds will go to the new batch.`
+      : undefined,
+    send: registry => registry.openBatch()
+  });
+
+  const closeBatchAction = (): PendingAction => {
+    if (!/^\d+$/.test(closeBatchId.trim())) throw new Error("Batch ID must be a positive integer");
+    const batchId = BigInt(closeBatchId.trim());
+    if (batchId === 0n || batchId > state!.settings.currentBatchId) {
+      throw new Error(`Batch ID must be between 1 and ${state!.settings.currentBatchId}`);
+    }
+    return {
+      method: 'closeBatch',
+      args: [batchId],
+      title: `Close batch ${batchId}`,
+      warning: "Closing is irreversible; the batch stops accepting deeds.",
+      send: registry => registry.closeBatch(batchId)
+    };
+  };
+
+  const providerAction = (add: boolean) => (): PendingAction => {
+    const provider = requireAddress(providerAddress, "Provider");
+    const listed = state!.providers.some(p => p.toLowerCase() === provider.toLowerCase());
+    return {
+      method: add ? 'addProvider' : 'removeProvider',
+      args: [provider],
+      title: `${add ? "Add" : "Remove"} provider ${provider}`,
+      warning: add === listed ? `${provider} is already ${add ? "a provider" : "not a provider"}.` : undefined,
+      send: registry => add ? registry.addProvider(provider) : registry.removeProvider(provider)
+    };
+  };
+
+  const pauseAction = (): PendingAction => {
+    const paused = !state!.settings.paused;
+    return {
+      method: 'setPaused',
+      args: [paused],
+      title: paused ? "Pause the registry" : "Unpause the registry",
+      warning: paused ? "While paused, registrations, transfers, batch openings and decryption requests revert." : undefined,
+      send: registry => registry.setPaused(paused)
+    };
+  };
+
+  const cooldownAction = (): PendingAction => {
+    if (!/^\d+$/.test(cooldownInput.trim())) throw new Error("Cooldown must be a whole number of seconds");
+    const seconds = BigInt(cooldownInput.trim());
+    return {
+      method: 'setCooldownSeconds',
+      args: [seconds],
+      title: `Set cooldown to ${seconds}s`,
+      send: registry => registry.setCooldownSeconds(seconds)
+    };
+  };
+
+  const transferOwnershipAction = (): PendingAction => {
+    const owner = requireAddress(newOwner, "New owner");
+    if (owner === ethers.ZeroAddress) throw new Error("Ownership cannot be transferred to the zero address");
+    return {
+      method: 'transferOwnership',
+      args: [owner],
+      title: `Transfer ownership to ${owner}`,
+      warning: "You will lose access to every admin action. Double-check the new owner address.",
+      send: registry => registry.transferOwnership(owner)
+    };
+  };
+
+  if (loading && !state) return <div className="no-data">Loading registry settings...</div>;
+  if (loadError && !state) return <div className="no-data">{loadError}</div>;
+  if (!state) return null;
+
+  return (
+    <div className="admin-console">
+      <div className="admin-state">
+        <div className="info-item">
+          <span>Owner:</span>
+          <strong>{state.settings.owner}{isOwner && " (you)"}</strong>
+        </div>
+        <div className="info-item">
+          <span>Status:</span>
+          <strong>{state.settings.paused ? "Paused" : "Active"}</strong>
+        </div>
+        <div className="info-item">
+          <span>Cooldown:</span>
+          <strong>{state.settings.cooldownSeconds.toString()}s</strong>
+        </div>
+        <div className="info-item">
+          <span>Current Batch:</span>
+          <strong>
+            {state.currentBatch
+              ? `#${state.currentBatch.batchId} (${state.currentBatch.closed ? "closed" : "open"}, ${state.currentBatch.propertyCount} deeds)`
+              : "None"}
+          </strong>
+        </div>
+        <div className="info-item admin-providers">
+          <span>Providers ({state.providers.length}):</span>
+          {state.providers.length === 0
+            ? <strong>None</strong>
+            : state.providers.map(p => <strong key={p}>{p}</strong>)}
+        </div>
+      </div>
+
+      {!isOwner ? (
+        <div className="fhe-notice">
+          <div className="lock-icon">🔒</div>
+          <div>
+            <strong>Read-only</strong>
+            <p>Only the registry owner can perform admin actions. Connect the owner wallet to continue.</p>
+          </div>
+        </div>
+      ) : (
+        <div className="admin-actions">
+          <div className="admin-action">
+            <h3>Batches</h3>
+            <button className="submit-btn" onClick={() => review(openBatchAction)} disabled={state.settings.paused}>Open New Batch</button>
+            <div className="admin-inline">
+              <input type="number" value={closeBatchId} onChange={e => setCloseBatchId(e.target.value)} placeholder="Batch ID" />
+              <button className="cancel-btn" onClick={() => review(closeBatchAction)}>Close Batch</button>
+            </div>
+          </div>
+
+          <div className="admin-action">
+            <h3>Providers</h3>
+            <input type="text" value={providerAddress} onChange={e => setProviderAddress(e.target.value)} placeholder="0x... provider address" />
+            <div className="admin-inline">
+              <button className="submit-btn" onClick={() => review(providerAction(true))}>Add Provider</button>
+              <button className="cancel-btn" onClick={() => review(providerAction(false))}>Remove Provider</button>
+            </div>
+          </div>
+
+          <div className="admin-action">
+            <h3>Registry Status</h3>
+            <button className="cancel-btn" onClick={() => review(pauseAction)}>
+              {state.settings.paused ? "Unpause Registry" : "Pause Registry"}
+            </button>
+            <div className="admin-inline">
+              <input type="number" value={cooldownInput} onChange={e => setCooldownInput(e.target.value)} placeholder="Seconds" />
+              <button className="cancel-btn" onClick={() => review(cooldownAction)}>Set Cooldown</button>
+            </div>
+          </div>
+
+          <div className="admin-action">
+            <h3>Ownership</h3>
+            <input type="text" value={newOwner} onChange={e => setNewOwner(e.target.value)} placeholder="0x... new owner address" />
+            <button className="cancel-btn" onClick={() => review(transferOwnershipAction)}>Transfer Ownership</button>
+          </div>
+        </div>
+      )}
+
+      {formError && <div className="admin-result error">{formError}</div>}
+      {result && <div className={`admin-result ${result.status}`}>{result.message}</div>}
+
+      {pending && (
+        <div className="modal-overlay">
+          <div className="register-deed-modal">
+            <div className="modal-header">
+              <h2>Confirm: {pending.title}</h2>
+              <button onClick={() => { setPending(null); setPreview(null); }} className="close-modal">&times;</button>
+            </div>
+            <div className="modal-body">
+              {pending.warning && (
+                <div className="decryption-notice">
+                  <div className="warning-icon">⚠️</div>
+                  <span>{pending.warning}</span>
+                </div>
+              )}
+              {!preview ? (
+                <div className="no-data">Preparing transaction preview...</div>
+              ) : (
+                <div className="tx-preview">
+                  <div className="info-item"><span>From:</span><strong>{preview.from}</strong></div>
+                  <div className="info-item"><span>To:</span><strong>{preview.to}</strong></div>
+                  <div className="info-item"><span>Function:</span><strong>{preview.signature}</strong></div>
+                  <div className="info-item">
+                    <span>Arguments:</span>
+                    <strong>{pending.args.length === 0 ? "None" : pending.args.map(formatArg).join(", ")}</strong>
+                  </div>
+                  <div className="info-item"><span>Calldata:</span><code>{preview.data}</code></div>
+                  <div className="info-item">
+                    <span>Estimated Gas:</span>
+                    <strong>{preview.gasLimit !== null ? preview.gasLimit.toString() : "—"}</strong>
+                  </div>
+                  {preview.error && (
+                    <div className="admin-result error">This transaction is expected to revert: {preview.error}</div>
+                  )}
+                </div>
+              )}
+            </div>
+            <div className="modal-footer">
+              <button onClick={() => { setPending(null); setPreview(null); }} className="cancel-btn">Cancel</button>
+              <button onClick={confirm} disabled={!preview || !!preview.error || submitting} className="submit-btn">
+                {submitting ? "Submitting..." : "Confirm & Send"}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AdminConsole;
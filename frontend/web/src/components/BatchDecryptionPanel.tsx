@@ -0,0 +1,161 @@
+import React, { useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { getRegistryReadOnly, getRegistryWithSigner } from '../contract';
+import type { SyncedBatch, SyncedDecryption } from '../deedSync';
+import { DeedRegistryClient, describeRegistryError, formatDuration } from '../../../../sdk';
+import type { SubmissionCooldown } from '../cooldown';
+import { trackTransaction } from '../txTracker';
+import { batchPath } from '../routes';
+
+// How often pending requests are checked for the oracle's DecryptionCompleted callback
+const POLL_INTERVAL_MS = 10000;
+
+interface BatchDecryptionPanelProps {
+  batches: SyncedBatch[];
+  deedCounts: Map<number, number>;
+  isConnected: boolean;
+  address?: string;
+  cooldown: SubmissionCooldown;
+  // Resyncs the registry snapshot; called once a request is sent or fulfilled
+  onChanged: () => Promise<void>;
+}
+
+const latestDecryption = (batch: SyncedBatch): SyncedDecryption | undefined =>
+  batch.decryptions[batch.decryptions.length - 1];
+
+const latestCompleted = (batch: SyncedBatch): SyncedDecryption | undefined =>
+  [...batch.decryptions].reverse().find(d => d.completedAtBlock !== null);
+
+const BatchDecryptionPanel: React.FC<BatchDecryptionPanelProps> = ({ batches, deedCounts, isConnected, address, cooldown, onChanged }) => {
+  const [requesting, setRequesting] = useState<number | null>(null);
+  const [errors, setErrors] = useState<Record<number, string>>({});
+  // The registry owner; only it may request a decryption
+  const [owner, setOwner] = useState<string | null>(null);
+
+  // Ownership can change hands, so it is read again whenever the batches are resynced
+  useEffect(() => {
+    let cancelled = false;
+    getRegistryReadOnly({ quorum: true })
+      .then(registry => registry ? registry.contract.owner() : null)
+      .then(current => { if (!cancelled) setOwner(current); })
+      .catch(e => console.error("Error loading registry owner:", e));
+    return () => { cancelled = true; };
+  }, [batches]);
+
+  const isOwner = !!address && !!owner && owner.toLowerCase() === address.toLowerCase();
+
+  const pending = batches.flatMap(b => b.decryptions.filter(d => d.completedAtBlock === null));
+
+  // Track outstanding request ids until their DecryptionCompleted event shows up
+  useEffect(() => {
+    if (pending.length === 0) return;
+    let cancelled = false;
+    const poll = async () => {
+      try {
+        const registry = await getRegistryReadOnly();
+        if (!registry || cancelled) return;
+        for (const request of pending) {
+          const completed = await registry.findDecryptionCompleted(BigInt(request.requestId), request.requestedAtBlock);
+          if (completed && !cancelled) {
+            await onChanged();
+            return;
+          }
+        }
+      } catch (e) {
+        console.error("Error checking decryption requests:", e);
+      }
+    };
+    const timer = setInterval(poll, POLL_INTERVAL_MS);
+    return () => {
+      cancelled = true;
+      clearInterval(timer);
+    };
+  }, [pending.map(d => d.requestId).join(',')]);
+
+  const requestDecryption = async (batchId: number) => {
+    setRequesting(batchId);
+    setErrors(prev => ({ ...prev, [batchId]: "" }));
+    let registry: DeedRegistryClient | undefined;
+    try {
+      registry = await getRegistryWithSigner();
+      const tx = await registry.requestBatchValueSumDecryption(batchId);
+      trackTransaction(tx, `Request value sum of batch ${batchId}`);
+      await registry.waitForDecryptionRequested(tx);
+      await onChanged();
+    } catch (e) {
+      const message = await describeRegistryError(e, { client: registry, account: address });
+      setErrors(prev => ({ ...prev, [batchId]: message }));
+    } finally {
+      setRequesting(null);
+    }
+  };
+
+  if (batches.length === 0) return <div className="no-data">No batches opened yet</div>;
+
+  const lastRequest = Number(cooldown.state?.lastDecryptionRequestTime ?? 0n);
+
+  return (
+    <div className="batch-list">
+      {!isOwner && (
+        <div className="cooldown-notice">
+          <span>Only the registry owner can request a batch's value sum. Published totals are shown to everyone.</span>
+        </div>
+      )}
+      {isOwner && (cooldown.remaining > 0 || lastRequest > 0) && (
+        <div className="cooldown-notice">
+          {lastRequest > 0 && <span>Your last decryption request was on {new Date(lastRequest * 1000).toLocaleString()}. </span>}
+          {cooldown.remaining > 0 && (
+            <span>Requests share the submission cooldown; the next one is accepted in {formatDuration(cooldown.remaining)}.</span>
+          )}
+        </div>
+      )}
+      {[...batches].reverse().map(batch => {
+        const closed = batch.closedAtBlock !== null;
+        const latest = latestDecryption(batch);
+        const completed = latestCompleted(batch);
+        const awaiting = latest && latest.completedAtBlock === null ? latest : undefined;
+        return (
+          <div className="batch-item" key={batch.batchId}>
+            <div className="batch-header">
+              <Link className="batch-title" to={batchPath(batch.batchId)}>Batch #{batch.batchId}</Link>
+              <div className={`batch-status ${closed ? 'closed' : 'open'}`}>{closed ? "Closed" : "Open"}</div>
+            </div>
+            <div className="batch-details">
+              <span>{deedCounts.get(batch.batchId) ?? 0} deeds · opened at block {batch.openedAtBlock}</span>
+              {completed && (
+                <div className="batch-total">
+                  <span>Verified total value:</span>
+                  <strong>${BigInt(completed.propertyValueSum!).toLocaleString()}</strong>
+                  <span>Request #{completed.requestId} · block {completed.completedAtBlock}</span>
+                </div>
+              )}
+              {awaiting && (
+                <div className="batch-pending">
+                  <div className="fhe-spinner small"></div>
+                  <span>Awaiting decryption oracle for request #{awaiting.requestId}...</span>
+                </div>
+              )}
+              {errors[batch.batchId] && <div className="admin-result error">{errors[batch.batchId]}</div>}
+            </div>
+            {isOwner && (
+              <button
+                className="submit-btn"
+                onClick={() => requestDecryption(batch.batchId)}
+                disabled={!closed || !isConnected || !!awaiting || requesting !== null || cooldown.remaining > 0}
+                title={closed ? undefined : "Only closed batches can be decrypted"}
+              >
+                {requesting === batch.batchId
+                  ? "Requesting..."
+                  : cooldown.remaining > 0 && closed && !awaiting
+                    ? `Cooldown ${formatDuration(cooldown.remaining)}`
+                    : completed ? "Request Again" : "Request Sum Decryption"}
+              </button>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default BatchDecryptionPanel;
@@ -0,0 +1,86 @@
+import React from 'react';
+import { Link } from 'react-router-dom';
+import type { SyncedBatch } from '../deedSync';
+import { NetworkConfig, explorerTxUrl } from '../networks';
+
+interface BatchDetailModalProps {
+  batchId: number;
+  // Undefined when the batch does not exist on this network, or before the first sync
+  batch: SyncedBatch | undefined;
+  loading: boolean;
+  deedCount: number;
+  network: NetworkConfig;
+  onClose: () => void;
+}
+
+const TxLink: React.FC<{ network: NetworkConfig; hash: string }> = ({ network, hash }) => {
+  const url = explorerTxUrl(network, hash);
+  const label = `${hash.substring(0, 10)}...`;
+  return url ? <a href={url} target="_blank" rel="noopener noreferrer">{label}</a> : <span>{label}</span>;
+};
+
+const BatchDetailModal: React.FC<BatchDetailModalProps> = ({ batchId, batch, loading, deedCount, network, onClose }) => (
+  <div className="modal-overlay">
+    <div className="deed-detail-modal">
+      <div className="modal-header">
+        <h2>Batch #{batchId}</h2>
+        <button onClick={onClose} className="close-modal">&times;</button>
+      </div>
+
+      <div className="modal-body">
+        {!batch ? (
+          <p>{loading ? "Loading batch..." : `Batch #${batchId} does not exist on ${network.label}.`}</p>
+        ) : (
+          <>
+            <div className="deed-info">
+              <div className="info-item">
+                <span>State:</span>
+                <strong>{batch.closedAtBlock === null ? "Open" : "Closed"}</strong>
+              </div>
+              <div className="info-item">
+                <span>Opened at block:</span>
+                <strong>{batch.openedAtBlock}</strong>
+              </div>
+              {batch.closedAtBlock !== null && (
+                <div className="info-item">
+                  <span>Closed at block:</span>
+                  <strong>{batch.closedAtBlock}</strong>
+                </div>
+              )}
+              <div className="info-item">
+                <span>Deeds:</span>
+                <strong><Link to={`/deeds?batch=${batchId}`}>{deedCount} registered</Link></strong>
+              </div>
+            </div>
+
+            <div className="encrypted-section">
+              <h3>Value Sum Decryptions</h3>
+              {batch.decryptions.length === 0 ? (
+                <p>No decryption has been requested for this batch.</p>
+              ) : (
+                <ul className="batch-decryption-history">
+                  {[...batch.decryptions].reverse().map(d => (
+                    <li key={d.requestId}>
+                      <strong>Request #{d.requestId}</strong>{" "}
+                      {d.propertyValueSum !== null
+                        ? <span>total ${BigInt(d.propertyValueSum).toLocaleString()}</span>
+                        : <span>awaiting the decryption oracle</span>}
+                      <div className="batch-decryption-meta">
+                        requested at block {d.requestedAtBlock} (<TxLink network={network} hash={d.requestTransactionHash} />)
+                        {d.completedAtBlock !== null && d.completedTransactionHash && (
+                          <> · completed at block {d.completedAtBlock} (<TxLink network={network} hash={d.completedTransactionHash} />)</>
+                        )}
+                      </div>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  </div>
+);
+
+export default BatchDetailModal;
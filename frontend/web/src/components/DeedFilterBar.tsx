@@ -0,0 +1,71 @@
+import React from 'react';
+import { BatchStateFilter, DeedFilters, EMPTY_DEED_FILTERS, hasDeedFilters } from '../deedFilters';
+
+interface DeedFilterBarProps {
+  filters: DeedFilters;
+  onChange: (filters: DeedFilters) => void;
+  batchIds: number[];
+  shown: number;
+  total: number;
+}
+
+const DeedFilterBar: React.FC<DeedFilterBarProps> = ({ filters, onChange, batchIds, shown, total }) => {
+  const update = (changes: Partial<DeedFilters>) => onChange({ ...filters, ...changes });
+
+  return (
+    <div className="deed-filter-bar">
+      <div className="deed-filter-fields">
+        <input
+          type="search"
+          className="filter-input location"
+          placeholder="Search location"
+          value={filters.location}
+          onChange={e => update({ location: e.target.value })}
+        />
+        <select
+          className="filter-input"
+          value={filters.batchId ?? ""}
+          onChange={e => update({ batchId: e.target.value ? Number(e.target.value) : null })}
+        >
+          <option value="">All batches</option>
+          {batchIds.map(id => <option key={id} value={id}>Batch #{id}</option>)}
+        </select>
+        <select
+          className="filter-input"
+          value={filters.batchState}
+          onChange={e => update({ batchState: e.target.value as BatchStateFilter })}
+        >
+          <option value="all">Open and closed</option>
+          <option value="open">Open batches</option>
+          <option value="closed">Closed batches</option>
+        </select>
+        <label className="filter-date">
+          <span>From</span>
+          <input type="date" className="filter-input" value={filters.from} max={filters.to || undefined} onChange={e => update({ from: e.target.value })} />
+        </label>
+        <label className="filter-date">
+          <span>To</span>
+          <input type="date" className="filter-input" value={filters.to} min={filters.from || undefined} onChange={e => update({ to: e.target.value })} />
+        </label>
+        <input
+          type="search"
+          className="filter-input provider"
+          placeholder="Provider address"
+          value={filters.provider}
+          onChange={e => update({ provider: e.target.value })}
+        />
+      </div>
+      <div className="deed-filter-summary">
+        <span>
+          {hasDeedFilters(filters) ? `${shown} of ${total} deeds match` : `${total} deeds`}
+          {" · "}filters apply to public metadata and registry events only; encrypted fields are not searched
+        </span>
+        {hasDeedFilters(filters) && (
+          <button className="filter-clear" onClick={() => onChange(EMPTY_DEED_FILTERS)}>Clear filters</button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default DeedFilterBar;
@@ -0,0 +1,256 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { feature } from 'topojson-client';
+import type { Topology, GeometryCollection } from 'topojson-specification';
+import type { MultiPolygon, Polygon, Position } from 'geojson';
+import land110m from 'world-atlas/land-110m.json';
+
+// Plain equirectangular projection over a fixed 1000x500 canvas. The world outline is
+// bundled with the app, so the map renders without any tile server.
+const WIDTH = 1000;
+const HEIGHT = 500;
+const MAX_ZOOM = 32;
+// Markers closer than this many screen-ish units at the current zoom are merged
+const CLUSTER_RADIUS = 24;
+// Pointer travel (in CSS pixels) below which a press counts as a click rather than a drag
+const CLICK_TOLERANCE = 4;
+
+export interface MapPoint {
+  id: number;
+  label: string;
+  coordinates: { lat: number, lng: number };
+}
+
+export interface MapClickEvent {
+  lngLat: { lat: number, lng: number };
+}
+
+interface PropertyMapProps {
+  points: MapPoint[];
+  onSelect?: (id: number) => void;
+  onMapClick?: (e: MapClickEvent) => void;
+  // Pin shown on top of the markers, e.g. the location being entered in a form
+  pin?: { lat: number, lng: number } | null;
+  className?: string;
+}
+
+interface Cluster {
+  x: number;
+  y: number;
+  points: MapPoint[];
+}
+
+const project = (lng: number, lat: number): [number, number] => [
+  (lng + 180) / 360 * WIDTH,
+  (90 - lat) / 180 * HEIGHT
+];
+
+const unproject = (x: number, y: number) => ({
+  lng: Math.max(-180, Math.min(180, x / WIDTH * 360 - 180)),
+  lat: Math.max(-90, Math.min(90, 90 - y / HEIGHT * 180))
+});
+
+// Rings that cross the antimeridian are unwrapped into continuous longitudes and drawn
+// again shifted by 360 degrees, so each half shows up on its own side of the map.
+function ringPath(ring: Position[]): string {
+  const unwrapped: Position[] = [];
+  for (const [lng, lat] of ring) {
+    const prev = unwrapped[unwrapped.length - 1];
+    let x = lng;
+    if (prev) {
+      while (x - prev[0] > 180) x -= 360;
+      while (x - prev[0] < -180) x += 360;
+    }
+    unwrapped.push([x, lat]);
+  }
+  // A ring that goes all the way around (Antarctica) is closed through the pole
+  const first = unwrapped[0];
+  const last = unwrapped[unwrapped.length - 1];
+  if (Math.abs(last[0] - first[0]) >= 180) {
+    const pole = first[1] < 0 ? -90 : 90;
+    unwrapped.push([last[0], pole], [first[0], pole]);
+  }
+
+  const lngs = unwrapped.map(([lng]) => lng);
+  const shifts = [0];
+  if (Math.min(...lngs) < -180) shifts.push(360);
+  if (Math.max(...lngs) > 180) shifts.push(-360);
+  return shifts.map(shift =>
+    unwrapped.map(([lng, lat], i) => {
+      const [x, y] = project(lng + shift, lat);
+      return `${i === 0 ? 'M' : 'L'}${x.toFixed(1)},${y.toFixed(1)}`;
+    }).join('') + 'Z'
+  ).join('');
+}
+
+// Built once per page load; the 110m outline is small enough to draw as a single path
+let landPath: string | null = null;
+function getLandPath(): string {
+  if (landPath === null) {
+    const topology = land110m as unknown as Topology<{ land: GeometryCollection }>;
+    const geo = feature(topology, topology.objects.land);
+    const polygons: Position[][][] = [];
+    for (const f of geo.features) {
+      const geometry = f.geometry as Polygon | MultiPolygon;
+      if (geometry.type === 'Polygon') polygons.push(geometry.coordinates);
+      else polygons.push(...geometry.coordinates);
+    }
+    landPath = polygons.map(rings => rings.map(ringPath).join('')).join('');
+  }
+  return landPath;
+}
+
+// Greedy grid clustering in projected space; the cell shrinks as the map zooms in.
+function clusterPoints(points: MapPoint[], zoom: number): Cluster[] {
+  const cell = CLUSTER_RADIUS / zoom;
+  const cells = new Map<string, Cluster>();
+  for (const point of points) {
+    const [x, y] = project(point.coordinates.lng, point.coordinates.lat);
+    const key = `${Math.floor(x / cell)}:${Math.floor(y / cell)}`;
+    const cluster = cells.get(key);
+    if (cluster) {
+      const n = cluster.points.length;
+      cluster.x = (cluster.x * n + x) / (n + 1);
+      cluster.y = (cluster.y * n + y) / (n + 1);
+      cluster.points.push(point);
+    } else {
+      cells.set(key, { x, y, points: [point] });
+    }
+  }
+  return [...cells.values()];
+}
+
+const clampCenter = (center: { x: number, y: number }, zoom: number) => {
+  const halfW = WIDTH / zoom / 2;
+  const halfH = HEIGHT / zoom / 2;
+  return {
+    x: Math.max(halfW, Math.min(WIDTH - halfW, center.x)),
+    y: Math.max(halfH, Math.min(HEIGHT - halfH, center.y))
+  };
+};
+
+const PropertyMap: React.FC<PropertyMapProps> = ({ points, onSelect, onMapClick, pin, className }) => {
+  const svgRef = useRef<SVGSVGElement>(null);
+  const dragRef = useRef<{ startX: number, startY: number, center: { x: number, y: number }, moved: boolean } | null>(null);
+  const [zoom, setZoom] = useState(1);
+  const [center, setCenter] = useState({ x: WIDTH / 2, y: HEIGHT / 2 });
+
+  const land = useMemo(getLandPath, []);
+  const plotted = useMemo(
+    () => points.filter(p => Number.isFinite(p.coordinates.lat) && Number.isFinite(p.coordinates.lng)),
+    [points]
+  );
+  const clusters = useMemo(() => clusterPoints(plotted, zoom), [plotted, zoom]);
+
+  const viewW = WIDTH / zoom;
+  const viewH = HEIGHT / zoom;
+  const viewBox = `${center.x - viewW / 2} ${center.y - viewH / 2} ${viewW} ${viewH}`;
+  const markerScale = 1 / zoom;
+
+  const zoomTo = (nextZoom: number, focus = center) => {
+    const z = Math.max(1, Math.min(MAX_ZOOM, nextZoom));
+    setZoom(z);
+    setCenter(clampCenter(focus, z));
+  };
+
+  // Converts a pointer position to projected map coordinates
+  const toMapPoint = (clientX: number, clientY: number) => {
+    const svg = svgRef.current;
+    const ctm = svg?.getScreenCTM();
+    if (!svg || !ctm) return null;
+    const p = new DOMPoint(clientX, clientY).matrixTransform(ctm.inverse());
+    return { x: p.x, y: p.y };
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<SVGSVGElement>) => {
+    dragRef.current = { startX: e.clientX, startY: e.clientY, center, moved: false };
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<SVGSVGElement>) => {
+    const drag = dragRef.current;
+    const svg = svgRef.current;
+    if (!drag || !svg) return;
+    const dx = e.clientX - drag.startX;
+    const dy = e.clientY - drag.startY;
+    if (!drag.moved && Math.hypot(dx, dy) < CLICK_TOLERANCE) return;
+    drag.moved = true;
+    const unitsPerPixel = viewW / svg.getBoundingClientRect().width;
+    setCenter(clampCenter({ x: drag.center.x - dx * unitsPerPixel, y: drag.center.y - dy * unitsPerPixel }, zoom));
+  };
+
+  const handlePointerUp = (e: React.PointerEvent<SVGSVGElement>) => {
+    const drag = dragRef.current;
+    dragRef.current = null;
+    if (!drag || drag.moved || !onMapClick) return;
+    const p = toMapPoint(e.clientX, e.clientY);
+    if (p) onMapClick({ lngLat: unproject(p.x, p.y) });
+  };
+
+  const handleWheel = (e: React.WheelEvent<SVGSVGElement>) => {
+    const p = toMapPoint(e.clientX, e.clientY);
+    if (!p) return;
+    const nextZoom = Math.max(1, Math.min(MAX_ZOOM, zoom * (e.deltaY < 0 ? 1.5 : 1 / 1.5)));
+    // Keep the point under the cursor fixed while zooming
+    const ratio = zoom / nextZoom;
+    zoomTo(nextZoom, { x: p.x + (center.x - p.x) * ratio, y: p.y + (center.y - p.y) * ratio });
+  };
+
+  const handleClusterClick = (e: React.MouseEvent, cluster: Cluster) => {
+    e.stopPropagation();
+    if (cluster.points.length === 1 || zoom >= MAX_ZOOM) {
+      onSelect?.(cluster.points[0].id);
+    } else {
+      zoomTo(zoom * 4, { x: cluster.x, y: cluster.y });
+    }
+  };
+
+  const pinPosition = pin ? project(pin.lng, pin.lat) : null;
+
+  return (
+    <div className={`property-map ${className ?? ''}`}>
+      <svg
+        ref={svgRef}
+        viewBox={viewBox}
+        preserveAspectRatio="xMidYMid meet"
+        className={onMapClick ? 'placing' : ''}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerLeave={() => { dragRef.current = null; }}
+        onWheel={handleWheel}
+      >
+        <rect className="map-ocean" x={0} y={0} width={WIDTH} height={HEIGHT} />
+        <path className="map-land" d={land} strokeWidth={0.5 * markerScale} />
+        {clusters.map(cluster => (
+          <g
+            key={cluster.points.map(p => p.id).join(',')}
+            className={cluster.points.length > 1 ? 'map-cluster' : 'map-point'}
+            transform={`translate(${cluster.x},${cluster.y}) scale(${markerScale})`}
+            onPointerDown={e => e.stopPropagation()}
+            onPointerUp={e => e.stopPropagation()}
+            onClick={e => handleClusterClick(e, cluster)}
+          >
+            <title>
+              {cluster.points.length > 1
+                ? `${cluster.points.length} properties`
+                : cluster.points[0].label}
+            </title>
+            <circle r={cluster.points.length > 1 ? 9 + Math.min(9, cluster.points.length) : 6} />
+            {cluster.points.length > 1 && <text dy="0.35em">{cluster.points.length}</text>}
+          </g>
+        ))}
+        {pinPosition && (
+          <g className="map-pin" transform={`translate(${pinPosition[0]},${pinPosition[1]}) scale(${markerScale})`}>
+            <path d="M0,0 L-6,-14 A7,7 0 1,1 6,-14 Z" />
+          </g>
+        )}
+      </svg>
+      <div className="map-controls">
+        <button onClick={() => zoomTo(zoom * 2)} disabled={zoom >= MAX_ZOOM} aria-label="Zoom in">+</button>
+        <button onClick={() => zoomTo(zoom / 2)} disabled={zoom <= 1} aria-label="Zoom out">−</button>
+      </div>
+      {onMapClick && <div className="map-hint">Click the map to set coordinates</div>}
+    </div>
+  );
+};
+
+export default PropertyMap;
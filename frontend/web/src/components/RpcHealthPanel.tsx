@@ -0,0 +1,93 @@
+import React, { useEffect, useState } from 'react';
+import type { NetworkConfig } from '../networks';
+import { EndpointHealth, getProviderPool } from '../rpcPool';
+
+// The pool updates on every request; sampling it is cheaper than re-rendering per request
+const REFRESH_INTERVAL_MS = 1000;
+
+interface RpcHealthPanelProps {
+  network: NetworkConfig;
+  onClose: () => void;
+}
+
+const formatLatency = (ms: number | null) => ms === null ? "—" : `${Math.round(ms)} ms`;
+
+const RpcHealthPanel: React.FC<RpcHealthPanelProps> = ({ network, onClose }) => {
+  const [health, setHealth] = useState<EndpointHealth[]>([]);
+  const [now, setNow] = useState(Date.now());
+  const quorumVerified = getProviderPool(network).quorumVerified;
+
+  useEffect(() => {
+    const pool = getProviderPool(network);
+    const refresh = () => {
+      setHealth(pool.getHealth());
+      setNow(Date.now());
+    };
+    refresh();
+    const timer = setInterval(refresh, REFRESH_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [network.chainId]);
+
+  // Lowest score serves the next read
+  const preferred = health.reduce<number | null>((best, endpoint, i) =>
+    endpoint.state === 'closed' && (best === null || endpoint.score < health[best].score) ? i : best, null);
+
+  return (
+    <div className="rpc-health-panel">
+      <div className="rpc-health-header">
+        <h3>RPC health · {network.label}</h3>
+        <button onClick={onClose} className="close-modal">&times;</button>
+      </div>
+      <table className="rpc-health-table">
+        <thead>
+          <tr>
+            <th>Endpoint</th>
+            <th>Circuit</th>
+            <th>Latency</th>
+            <th>Error rate</th>
+            <th>Requests</th>
+            <th>Failures</th>
+          </tr>
+        </thead>
+        <tbody>
+          {health.map((endpoint, i) => (
+            <tr key={i} className={i === preferred ? 'preferred' : ''}>
+              <td>
+                {endpoint.label}
+                {i === preferred && <span className="rpc-preferred-tag">active</span>}
+              </td>
+              <td>
+                <span className={`rpc-circuit ${endpoint.state}`}>{endpoint.state}</span>
+                {endpoint.state === 'open' && endpoint.openUntil !== null && (
+                  <span className="rpc-retry"> retry in {Math.max(0, Math.ceil((endpoint.openUntil - now) / 1000))}s</span>
+                )}
+              </td>
+              <td>{formatLatency(endpoint.latencyMs)}</td>
+              <td>{(endpoint.errorRate * 100).toFixed(0)}%</td>
+              <td>{endpoint.requests}</td>
+              <td>{endpoint.failures}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      {health.some(e => e.lastError) && (
+        <div className="rpc-health-errors">
+          {health.map((endpoint, i) => endpoint.lastError && (
+            <div key={i}><strong>{endpoint.label}:</strong> {endpoint.lastError}</div>
+          ))}
+        </div>
+      )}
+      {!quorumVerified && (
+        <div className="rpc-health-errors">
+          Only one endpoint is configured, so owner, provider and batch checks are unverified: they trust its answer without a second endpoint to compare.
+        </div>
+      )}
+      <p className="rpc-health-note">
+        Reads go to the healthiest endpoint with a closed circuit.
+        {quorumVerified && " Owner, provider and batch checks must return the same answer from two endpoints."}
+      </p>
+    </div>
+  );
+};
+
+export default RpcHealthPanel;
@@ -0,0 +1,94 @@
+import React, { useEffect, useState } from 'react';
+import { NetworkConfig, explorerTxUrl } from '../networks';
+import { TrackedTransaction, TransactionState, getTransactionTracker, isFinal } from '../txTracker';
+
+interface TransactionTrayProps {
+  network: NetworkConfig;
+}
+
+const STATE_LABELS: Record<TransactionState, string> = {
+  pending: "Pending",
+  mined: "Mined",
+  success: "Confirmed",
+  failed: "Failed",
+  dropped: "Dropped",
+  replaced: "Replaced",
+  reorged: "Reorged"
+};
+
+const formatAge = (timestamp: number, now: number) => {
+  const seconds = Math.max(0, Math.floor((now - timestamp) / 1000));
+  if (seconds < 60) return `${seconds}s ago`;
+  if (seconds < 3600) return `${Math.floor(seconds / 60)}m ago`;
+  return new Date(timestamp).toLocaleString();
+};
+
+const TransactionTray: React.FC<TransactionTrayProps> = ({ network }) => {
+  const tracker = getTransactionTracker(network);
+  const [transactions, setTransactions] = useState<TrackedTransaction[]>(tracker.transactions);
+  const [expanded, setExpanded] = useState(true);
+  const [now, setNow] = useState(Date.now());
+
+  useEffect(() => {
+    setTransactions(tracker.transactions);
+    return tracker.subscribe(setTransactions);
+  }, [network.chainId]);
+
+  // Keeps the relative submission times current
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 10000);
+    return () => clearInterval(timer);
+  }, []);
+
+  if (transactions.length === 0) return null;
+
+  const inFlight = transactions.filter(t => !isFinal(t)).length;
+
+  return (
+    <div className="tx-tray">
+      <div className="tx-tray-header" onClick={() => setExpanded(!expanded)}>
+        <span>
+          Transactions
+          {inFlight > 0 && <span className="tx-tray-count">{inFlight} in flight</span>}
+        </span>
+        <span className="tx-tray-toggle">{expanded ? "▾" : "▸"}</span>
+      </div>
+      {expanded && (
+        <>
+          <ul className="tx-tray-list">
+            {transactions.map(tx => {
+              const url = explorerTxUrl(network, tx.hash);
+              const shortHash = `${tx.hash.substring(0, 10)}...${tx.hash.substring(62)}`;
+              return (
+                <li key={tx.hash} className="tx-tray-item">
+                  <div className="tx-tray-row">
+                    <span className="tx-tray-purpose">{tx.purpose}</span>
+                    <span className={`tx-state ${tx.state}`}>
+                      {!isFinal(tx) && <span className="tx-state-spinner"></span>}
+                      {STATE_LABELS[tx.state]}
+                    </span>
+                  </div>
+                  <div className="tx-tray-meta">
+                    {url ? <a href={url} target="_blank" rel="noopener noreferrer">{shortHash}</a> : <span>{shortHash}</span>}
+                    <span>nonce {tx.nonce}</span>
+                    {tx.blockNumber !== null && (
+                      <span>block {tx.blockNumber} · {Math.min(tx.confirmations, network.confirmations)}/{network.confirmations} confirmations</span>
+                    )}
+                    <span>{formatAge(tx.submittedAt, now)}</span>
+                  </div>
+                  {tx.note && <div className="tx-tray-note">{tx.note}</div>}
+                  {tx.error && <div className="tx-tray-error">{tx.error}</div>}
+                </li>
+              );
+            })}
+          </ul>
+          {transactions.some(isFinal) && (
+            <button className="tx-tray-clear" onClick={() => tracker.clearSettled()}>Clear finished</button>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default TransactionTray;
@@ -0,0 +1,75 @@
+import React, { useEffect, useLayoutEffect, useRef, useState } from 'react';
+import type { DeedHandles } from '../../../../sdk';
+import type { NetworkConfig } from '../networks';
+import { DeedRef, getDeedPageCache } from '../deedPages';
+
+// Cards have a fixed height so that any row's position follows from its index
+const ROW_HEIGHT = 214;
+const GAP = 24;
+const MIN_CARD_WIDTH = 300;
+// Rows rendered (and pages fetched) beyond the visible area in each direction
+const OVERSCAN_ROWS = 3;
+
+interface VirtualDeedListProps<T extends DeedRef> {
+  network: NetworkConfig;
+  items: T[];
+  itemKey: (item: T) => string | number;
+  // `handles` is undefined until the item's page has been read from the registry
+  renderItem: (item: T, handles: DeedHandles | undefined) => React.ReactNode;
+}
+
+// Renders only the rows in view and reads their encrypted handles page by page through
+// getDeedPage, so the deed tab stays responsive however many deeds the registry holds.
+function VirtualDeedList<T extends DeedRef>({ network, items, itemKey, renderItem }: VirtualDeedListProps<T>) {
+  const viewport = useRef<HTMLDivElement>(null);
+  const [size, setSize] = useState({ width: 0, height: 0 });
+  const [scrollTop, setScrollTop] = useState(0);
+  // Bumped when handles arrive or the cache is invalidated after a resync
+  const [version, setVersion] = useState(0);
+  const cache = getDeedPageCache(network);
+
+  useLayoutEffect(() => {
+    const element = viewport.current;
+    if (!element) return;
+    const observer = new ResizeObserver(() => setSize({ width: element.clientWidth, height: element.clientHeight }));
+    observer.observe(element);
+    return () => observer.disconnect();
+  }, []);
+
+  useEffect(() => cache.subscribe(() => setVersion(v => v + 1)), [network.chainId]);
+
+  const columns = Math.max(1, Math.floor((size.width + GAP) / (MIN_CARD_WIDTH + GAP)));
+  const rowCount = Math.ceil(items.length / columns);
+  const firstRow = Math.max(0, Math.floor(scrollTop / ROW_HEIGHT) - OVERSCAN_ROWS);
+  const lastRow = Math.min(rowCount - 1, Math.ceil((scrollTop + size.height) / ROW_HEIGHT) + OVERSCAN_ROWS);
+  const visible = items.slice(firstRow * columns, (lastRow + 1) * columns);
+
+  useEffect(() => {
+    if (visible.length > 0) cache.request(visible);
+  }, [firstRow, lastRow, columns, items, network.chainId, version]);
+
+  const rows: T[][] = [];
+  for (let i = 0; i < visible.length; i += columns) rows.push(visible.slice(i, i + columns));
+
+  return (
+    <div className="virtual-deed-list" ref={viewport} onScroll={e => setScrollTop(e.currentTarget.scrollTop)}>
+      <div style={{ height: rowCount * ROW_HEIGHT, position: 'relative' }}>
+        {rows.map((row, i) => (
+          <div
+            key={firstRow + i}
+            className="virtual-deed-row"
+            style={{ top: (firstRow + i) * ROW_HEIGHT, height: ROW_HEIGHT - GAP, gridTemplateColumns: `repeat(${columns}, 1fr)`, gap: GAP }}
+          >
+            {row.map(item => (
+              <React.Fragment key={itemKey(item)}>
+                {renderItem(item, cache.get(item.batchId, item.deedIndex))}
+              </React.Fragment>
+            ))}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+export default VirtualDeedList;
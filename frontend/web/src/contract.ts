@@ -1,10 +1,9 @@
 // contract.ts
 import { ethers } from "ethers";
-import abiJson from "./abi/UniversalAdapter.json";
-import configJson from "./config.json";
-
-export const ABI = (abiJson as any).abi || abiJson;
-export const config = configJson;
+import { UniversalAdapter__factory } from "./abi/types";
+import { DeedRegistryClient } from "../../../sdk";
+import { NetworkConfig, getActiveNetwork } from "./networks";
+import { getProviderPool } from "./rpcPool";
 
 const retry = async <T>(fn: () => Promise<T>, retries = 3, delay = 1000): Promise<T> => {
   try {
@@ -18,43 +17,29 @@ const retry = async <T>(fn: () => Promise<T>, retries = 3, delay = 1000): Promis
   }
 };
 
-const getTestnetProvider = async () => {
-  const rpcUrls = [
-    "https://sepolia.infura.io/v3/96406da962744120afbe0cf64c8bd7b3",
-    "https://rpc.ankr.com/eth_sepolia/f5a86d4556184938f528d746ecfa1eabcf7e4b970fc86df257418084c9305ae4",
-    "https://rpc.sepolia.org",
-    "https://rpc2.sepolia.org",
-    "https://eth-sepolia.public.blastapi.io"
-  ];
-  
-  for (const url of rpcUrls) {
-    try {
-      const provider = new ethers.JsonRpcProvider(url, {
-        name: "sepolia",
-        chainId: 11155111
-      });
-      
-      const blockNumber = await Promise.race([
-        provider.getBlockNumber(),
-        new Promise((_, reject) => 
-          setTimeout(() => reject(new Error("RPC timeout")), 10000)
-        )
-      ]);
-      
-      return provider;
-    } catch (error) {
-    }
+// Signer from the injected wallet, refusing to sign on a chain other than the active one
+const getWalletSigner = async (network: NetworkConfig) => {
+  if (!window.ethereum) {
+    throw new Error("No injected wallet");
   }
-  
-  throw new Error("All RPC providers failed");
+  const provider = new ethers.BrowserProvider(window.ethereum);
+  const { chainId } = await provider.getNetwork();
+  if (Number(chainId) !== network.chainId) {
+    throw new Error(`Wallet is connected to chain ${chainId}; switch it to ${network.label}`);
+  }
+  return provider.getSigner();
 };
 
 export async function getContractReadOnly() {
+  const network = getActiveNetwork();
+  if (!network.adapterAddress) {
+    return null;
+  }
   try {
-    const provider = await getTestnetProvider();
-    const contract = new ethers.Contract(config.contractAddress, ABI, provider);
+    const provider = getProviderPool(network).provider;
+    const contract = UniversalAdapter__factory.connect(network.adapterAddress, provider);
     
-    const code = await retry(() => provider.getCode(config.contractAddress));
+    const code = await retry(() => provider.getCode(network.adapterAddress));
     if (code === "0x") {
       return null;
     }
@@ -67,13 +52,13 @@ export async function getContractReadOnly() {
 }
 
 export async function getContractWithSigner() {
-  if (!(window as any).ethereum) {
-    throw new Error("No injected wallet");
+  const network = getActiveNetwork();
+  if (!network.adapterAddress) {
+    throw new Error(`UniversalAdapter address is not configured for ${network.label}`);
   }
   try {
-    const provider = new ethers.BrowserProvider((window as any).ethereum);
-    const signer = await provider.getSigner();
-    const contract = new ethers.Contract(config.contractAddress, ABI, signer);
+    const signer = await getWalletSigner(network);
+    const contract = UniversalAdapter__factory.connect(network.adapterAddress, signer);
     return contract;
   } catch (error) {
     console.error("Failed to create contract with signer:", error);
@@ -81,6 +66,37 @@ export async function getContractWithSigner() {
   }
 }
 
+// With `quorum`, eth_calls made through the client must agree on two RPC endpoints;
+// use it for reads that gate what the user is allowed to do, such as owner or batch state.
+export async function getRegistryReadOnly(options: { quorum?: boolean } = {}): Promise<DeedRegistryClient | null> {
+  const network = getActiveNetwork();
+  if (!network.registryAddress) {
+    console.error(`DeedRegistryFHE address is not configured for ${network.label}`);
+    return null;
+  }
+  try {
+    const pool = getProviderPool(network);
+    const provider = options.quorum ? pool.quorumProvider : pool.provider;
+    const code = await retry(() => provider.getCode(network.registryAddress));
+    if (code === "0x") {
+      return null;
+    }
+
+    return DeedRegistryClient.connect(network.registryAddress, provider);
+  } catch (error) {
+    console.error("Failed to create read-only registry client:", error);
+    return null;
+  }
+}
+
+export async function getRegistryWithSigner(): Promise<DeedRegistryClient> {
+  const network = getActiveNetwork();
+  if (!network.registryAddress) {
+    throw new Error(`DeedRegistryFHE address is not configured for ${network.label}`);
+  }
+  return DeedRegistryClient.connect(network.registryAddress, await getWalletSigner(network));
+}
+
 export function normAddr(a: string) { 
   return a ? a.toLowerCase() : a; 
 }
\ No newline at end of file
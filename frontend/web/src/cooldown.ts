@@ -0,0 +1,61 @@
+// cooldown.ts
+import { useEffect, useState } from "react";
+import { cooldownRemaining } from "../../../sdk";
+import type { CooldownState } from "../../../sdk";
+import { getRegistryReadOnly } from "./contract";
+import type { NetworkConfig } from "./networks";
+import { getTransactionTracker } from "./txTracker";
+
+export interface SubmissionCooldown {
+  // Whole seconds until the registry accepts a registration or decryption request; 0 when it does
+  remaining: number;
+  // Null until the registry has been read for the connected account
+  state: CooldownState | null;
+}
+
+// Mirrors the registry's `respectCooldown` check for `account`. The chain is read once and
+// then counted down locally; it is read again whenever one of the account's transactions
+// is mined or settles, since that is what moves `lastSubmissionTime`.
+export function useSubmissionCooldown(account: string | undefined, network: NetworkConfig): SubmissionCooldown {
+  const [state, setState] = useState<CooldownState | null>(null);
+  // Local time at which the cooldown read from the chain ends
+  const [deadline, setDeadline] = useState(0);
+  const [now, setNow] = useState(Date.now());
+
+  useEffect(() => {
+    setState(null);
+    setDeadline(0);
+    if (!account || !network.registryAddress) return;
+    let cancelled = false;
+    const refresh = async () => {
+      try {
+        const registry = await getRegistryReadOnly();
+        if (!registry) return;
+        const cooldown = await registry.getCooldown(account);
+        if (cancelled) return;
+        setState(cooldown);
+        setDeadline(Date.now() + cooldownRemaining(cooldown) * 1000);
+        setNow(Date.now());
+      } catch (e) {
+        console.error("Error reading submission cooldown:", e);
+      }
+    };
+    refresh();
+    const unsubscribe = getTransactionTracker(network).onTransition(tx => {
+      if (tx.from.toLowerCase() === account.toLowerCase() && tx.state !== 'pending') refresh();
+    });
+    return () => {
+      cancelled = true;
+      unsubscribe();
+    };
+  }, [account, network.chainId]);
+
+  const running = deadline > now;
+  useEffect(() => {
+    if (!running) return;
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [running]);
+
+  return { remaining: running ? Math.ceil((deadline - now) / 1000) : 0, state };
+}
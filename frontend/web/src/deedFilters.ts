@@ -0,0 +1,87 @@
+// deedFilters.ts
+import { ethers } from "ethers";
+
+export type BatchStateFilter = 'all' | 'open' | 'closed';
+
+// Filters over what is public about a deed: its metadata and the registry events. Encrypted
+// handles never take part; searching confidential fields needs an explicit decryption flow.
+export interface DeedFilters {
+  location: string;
+  batchId: number | null;
+  // Registration dates as YYYY-MM-DD in local time; both ends are inclusive
+  from: string;
+  to: string;
+  // Full address or a fragment of one
+  provider: string;
+  batchState: BatchStateFilter;
+}
+
+export interface FilterableDeed {
+  batchId: number;
+  location: string;
+  provider: string;
+  batchClosed: boolean;
+  timestamp: number;
+}
+
+export const EMPTY_DEED_FILTERS: DeedFilters = { location: "", batchId: null, from: "", to: "", provider: "", batchState: 'all' };
+
+// Query string keys; defaults are left out so an unfiltered list keeps a clean URL
+const PARAMS = { location: "q", batchId: "batch", from: "from", to: "to", provider: "provider", batchState: "state" } as const;
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+export function parseDeedFilters(params: URLSearchParams): DeedFilters {
+  const batchId = Number(params.get(PARAMS.batchId));
+  const date = (value: string | null) => value && DATE_PATTERN.test(value) ? value : "";
+  const state = params.get(PARAMS.batchState);
+  return {
+    location: params.get(PARAMS.location) ?? "",
+    batchId: Number.isInteger(batchId) && batchId > 0 ? batchId : null,
+    from: date(params.get(PARAMS.from)),
+    to: date(params.get(PARAMS.to)),
+    provider: params.get(PARAMS.provider) ?? "",
+    batchState: state === 'open' || state === 'closed' ? state : 'all'
+  };
+}
+
+// Returns a copy of `params` with the filter keys replaced, leaving unrelated keys alone
+export function writeDeedFilters(filters: DeedFilters, params: URLSearchParams): URLSearchParams {
+  const next = new URLSearchParams(params);
+  const set = (key: string, value: string) => value ? next.set(key, value) : next.delete(key);
+  set(PARAMS.location, filters.location.trim() ? filters.location : "");
+  set(PARAMS.batchId, filters.batchId === null ? "" : String(filters.batchId));
+  set(PARAMS.from, filters.from);
+  set(PARAMS.to, filters.to);
+  set(PARAMS.provider, filters.provider.trim());
+  set(PARAMS.batchState, filters.batchState === 'all' ? "" : filters.batchState);
+  return next;
+}
+
+export const hasDeedFilters = (filters: DeedFilters) =>
+  writeDeedFilters(filters, new URLSearchParams()).toString() !== "";
+
+// Local midnight at the start of `date`, `days` days later, in seconds
+const startOfDay = (date: string, days = 0) => {
+  const day = new Date(`${date}T00:00:00`);
+  day.setDate(day.getDate() + days);
+  return day.getTime() / 1000;
+};
+
+export function matchesDeedFilters(deed: FilterableDeed, filters: DeedFilters): boolean {
+  const location = filters.location.trim().toLowerCase();
+  if (location && !deed.location.toLowerCase().includes(location)) return false;
+  if (filters.batchId !== null && deed.batchId !== filters.batchId) return false;
+  if (filters.from && deed.timestamp < startOfDay(filters.from)) return false;
+  if (filters.to && deed.timestamp >= startOfDay(filters.to, 1)) return false;
+  const provider = filters.provider.trim().toLowerCase();
+  if (provider) {
+    const matches = ethers.isAddress(provider)
+      ? deed.provider.toLowerCase() === provider
+      : deed.provider.toLowerCase().includes(provider);
+    if (!matches) return false;
+  }
+  if (filters.batchState === 'open' && deed.batchClosed) return false;
+  if (filters.batchState === 'closed' && !deed.batchClosed) return false;
+  return true;
+}
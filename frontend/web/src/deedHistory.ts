@@ -0,0 +1,88 @@
+// deedHistory.ts
+import type { SyncedBatch, SyncedDeed } from "./deedSync";
+
+export type DeedHistoryKind = 'registered' | 'transferred' | 'access-granted' | 'decryption-requested' | 'decryption-completed';
+
+// Only the registry owner can request a decryption, and completions are delivered by the oracle
+export type DeedHistoryRole = 'registrar' | 'owner' | 'registry-owner' | 'oracle';
+
+export interface DeedHistoryEntry {
+  kind: DeedHistoryKind;
+  role: DeedHistoryRole;
+  // Only registrars are named; an owner's address and transaction are left out when the
+  // snapshot is built, though both remain readable on-chain
+  actor: string | null;
+  blockNumber: number;
+  transactionHash: string | null;
+  timestamp: number;
+}
+
+export const DEED_HISTORY_LABELS: Record<DeedHistoryKind, string> = {
+  'registered': "Registered",
+  'transferred': "Confidential transfer submitted",
+  'access-granted': "Recipient wallet granted access",
+  'decryption-requested': "Batch value sum decryption requested",
+  'decryption-completed': "Batch value sum decrypted"
+};
+
+export const DEED_HISTORY_ROLES: Record<DeedHistoryRole, string> = {
+  registrar: "Registrar",
+  owner: "Owner",
+  'registry-owner': "Registry owner",
+  oracle: "Decryption oracle"
+};
+
+// The deed's own events plus the value-sum decryptions of its batch, oldest first.
+// Snapshots keep block numbers but not log indexes, so a transfer and the grant made in
+// the same transaction are listed transfer first.
+export function buildDeedHistory(deed: SyncedDeed, batch: SyncedBatch | undefined): DeedHistoryEntry[] {
+  const entries: DeedHistoryEntry[] = [{
+    kind: 'registered',
+    role: 'registrar',
+    actor: deed.provider,
+    blockNumber: deed.blockNumber,
+    transactionHash: deed.transactionHash,
+    timestamp: deed.timestamp
+  }];
+  for (const transfer of deed.transfers) {
+    entries.push({
+      kind: 'transferred',
+      role: transfer.role,
+      actor: transfer.initiator,
+      blockNumber: transfer.blockNumber,
+      transactionHash: transfer.transactionHash,
+      timestamp: transfer.timestamp
+    });
+  }
+  for (const grant of deed.grants) {
+    entries.push({
+      kind: 'access-granted',
+      role: 'registrar',
+      actor: grant.grantedBy,
+      blockNumber: grant.blockNumber,
+      transactionHash: grant.transactionHash,
+      timestamp: grant.timestamp
+    });
+  }
+  for (const decryption of batch?.decryptions ?? []) {
+    entries.push({
+      kind: 'decryption-requested',
+      role: 'registry-owner',
+      actor: null,
+      blockNumber: decryption.requestedAtBlock,
+      transactionHash: decryption.requestTransactionHash,
+      timestamp: decryption.requestedAt
+    });
+    if (decryption.completedAtBlock !== null && decryption.completedTransactionHash && decryption.completedAt !== null) {
+      entries.push({
+        kind: 'decryption-completed',
+        role: 'oracle',
+        actor: null,
+        blockNumber: decryption.completedAtBlock,
+        transactionHash: decryption.completedTransactionHash,
+        timestamp: decryption.completedAt
+      });
+    }
+  }
+  return entries.sort((a, b) => a.blockNumber - b.blockNumber);
+}
@@ -0,0 +1,120 @@
+// deedMetadata.ts
+import { ethers } from "ethers";
+import type { UniversalAdapter } from "./abi/types";
+
+// Public, non-confidential deed details kept in UniversalAdapter under METADATA_KEY.
+// Registry entries carry batchId/deedIndex; entries without them are legacy records
+// written before deeds were registered on DeedRegistryFHE.
+export interface DeedMetadata {
+  batchId?: number;
+  deedIndex?: number;
+  location: string;
+  coordinates: { lat: number, lng: number };
+  timestamp: number;
+  // Free-text history written by earlier versions of the app. It is no longer written or
+  // shown: deed history is built from registry events (deedHistory.ts).
+  transactionHistory?: string[];
+}
+
+export const METADATA_KEY = "property_deeds";
+
+export const metadataKey = (batchId: number, deedIndex: number) => `${batchId}:${deedIndex}`;
+
+const isFiniteNumber = (value: unknown): value is number => typeof value === "number" && Number.isFinite(value);
+const isIndex = (value: unknown) => value === undefined || (Number.isInteger(value) && (value as number) >= 0);
+
+// The list is written by anyone who can call UniversalAdapter, so entries are checked
+// before the UI relies on their shape
+function isDeedMetadata(value: unknown): value is DeedMetadata {
+  if (typeof value !== "object" || value === null) return false;
+  const entry = value as Record<string, unknown>;
+  const coordinates = entry.coordinates as Record<string, unknown> | null | undefined;
+  return isIndex(entry.batchId)
+    && isIndex(entry.deedIndex)
+    && typeof entry.location === "string"
+    && typeof coordinates === "object" && coordinates !== null
+    && isFiniteNumber(coordinates.lat)
+    && isFiniteNumber(coordinates.lng)
+    && isFiniteNumber(entry.timestamp)
+    && (entry.transactionHistory === undefined
+      || (Array.isArray(entry.transactionHistory) && entry.transactionHistory.every(item => typeof item === "string")));
+}
+
+// The stored list as written, including entries that decodeDeedMetadata leaves out
+function parseDeedMetadataList(bytes: string): unknown[] {
+  if (ethers.getBytes(bytes).length === 0) return [];
+  const text = ethers.toUtf8String(bytes);
+  if (text.trim() === "") return [];
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch (e: any) {
+    throw new Error(`Deed metadata under "${METADATA_KEY}" is not valid JSON: ${e.message}`);
+  }
+  if (!Array.isArray(parsed)) {
+    throw new Error(`Deed metadata under "${METADATA_KEY}" is not a list`);
+  }
+  return parsed;
+}
+
+// Entries that do not have the DeedMetadata shape are skipped with a warning
+export function decodeDeedMetadata(bytes: string): DeedMetadata[] {
+  const parsed = parseDeedMetadataList(bytes);
+  const entries = parsed.filter(isDeedMetadata);
+  if (entries.length < parsed.length) {
+    console.warn(`Skipped ${parsed.length - entries.length} malformed deed metadata entries under "${METADATA_KEY}"`);
+  }
+  return entries;
+}
+
+// Takes the stored list as parsed, so entries decodeDeedMetadata skipped are kept
+export function encodeDeedMetadata(entries: unknown[]): Uint8Array {
+  return ethers.toUtf8Bytes(JSON.stringify(entries));
+}
+
+export function indexDeedMetadata(entries: DeedMetadata[]): Map<string, DeedMetadata> {
+  const index = new Map<string, DeedMetadata>();
+  for (const entry of entries) {
+    if (entry.batchId === undefined || entry.deedIndex === undefined) continue;
+    index.set(metadataKey(entry.batchId, entry.deedIndex), entry);
+  }
+  return index;
+}
+
+const MAX_WRITE_ATTEMPTS = 5;
+
+// Appends `entry` with optimistic concurrency: the write is conditioned on the version
+// that was read, and on conflict the list is re-read and the entry rebased onto it.
+// `onSubmitted` sees every write attempt, including ones that are later retried.
+export async function appendDeedMetadata(
+  contract: UniversalAdapter,
+  entry: DeedMetadata,
+  onSubmitted?: (tx: ethers.TransactionResponse) => void
+): Promise<DeedMetadata[]> {
+  for (let attempt = 1; ; attempt++) {
+    const [bytes, version]: [string, bigint] = await contract.getDataWithVersion(METADATA_KEY);
+    const stored = parseDeedMetadataList(bytes);
+    const entries = stored.filter(isDeedMetadata);
+
+    const alreadyStored = entry.batchId !== undefined && entry.deedIndex !== undefined
+      && indexDeedMetadata(entries).has(metadataKey(entry.batchId, entry.deedIndex));
+    if (alreadyStored) return entries;
+
+    try {
+      const tx: ethers.TransactionResponse = await contract.setDataIfVersion(METADATA_KEY, version, encodeDeedMetadata([...stored, entry]));
+      onSubmitted?.(tx);
+      await tx.wait();
+      return [...entries, entry];
+    } catch (e: any) {
+      // A revert of any shape counts as a conflict only if someone else moved the version
+      const currentVersion: bigint = await contract.dataVersion(METADATA_KEY);
+      const conflicted = e?.revert?.name === "VersionMismatch" || currentVersion !== version;
+      if (!conflicted) throw e;
+      if (attempt >= MAX_WRITE_ATTEMPTS) {
+        throw new Error(`Deed metadata kept changing underneath this write; gave up after ${attempt} attempts`);
+      }
+      await new Promise(res => setTimeout(res, 250 * attempt + Math.random() * 250));
+    }
+  }
+}
@@ -0,0 +1,102 @@
+// deedPages.ts
+import { DeedRegistryClient } from "../../../sdk";
+import type { DeedHandles } from "../../../sdk";
+import type { NetworkConfig } from "./networks";
+import { getProviderPool } from "./rpcPool";
+
+// Deeds read per getDeedPage call; well below the contract's MAX_DEED_PAGE_SIZE so that
+// scrolling a little never waits on a large read
+export const DEED_PAGE_SIZE = 50;
+
+export interface DeedRef {
+  batchId: number;
+  deedIndex: number;
+}
+
+const deedKey = (batchId: number, deedIndex: number) => `${batchId}:${deedIndex}`;
+const pageKey = (batchId: number, page: number) => `${batchId}#${page}`;
+
+// Encrypted handles of the deeds the user has scrolled to, read one page of a batch at a
+// time. Everything is dropped on invalidate(), since a transfer replaces a deed's handles.
+export class DeedPageCache {
+  readonly network: NetworkConfig;
+  #handles = new Map<string, DeedHandles>();
+  // Pages loaded or in flight; a failed page is removed so the next request retries it
+  #pages = new Map<string, Promise<void>>();
+  #listeners = new Set<() => void>();
+  // Bumped on invalidate() so that reads started before it are discarded
+  #generation = 0;
+
+  constructor(network: NetworkConfig) {
+    this.network = network;
+  }
+
+  get(batchId: number, deedIndex: number): DeedHandles | undefined {
+    return this.#handles.get(deedKey(batchId, deedIndex));
+  }
+
+  // Called whenever handles arrive or the cache is cleared
+  subscribe(listener: () => void): () => void {
+    this.#listeners.add(listener);
+    return () => { this.#listeners.delete(listener); };
+  }
+
+  // Starts loading every page that covers `deeds` and is not loaded yet
+  request(deeds: DeedRef[]) {
+    const pages = new Map<string, DeedRef>();
+    for (const { batchId, deedIndex } of deeds) {
+      const page = Math.floor(deedIndex / DEED_PAGE_SIZE);
+      pages.set(pageKey(batchId, page), { batchId, deedIndex: page * DEED_PAGE_SIZE });
+    }
+    for (const [key, start] of pages) {
+      if (!this.#pages.has(key)) this.#pages.set(key, this.#loadPage(key, start));
+    }
+  }
+
+  async ensure(batchId: number, deedIndex: number): Promise<DeedHandles> {
+    const cached = this.get(batchId, deedIndex);
+    if (cached) return cached;
+    this.request([{ batchId, deedIndex }]);
+    await this.#pages.get(pageKey(batchId, Math.floor(deedIndex / DEED_PAGE_SIZE)));
+    const loaded = this.get(batchId, deedIndex);
+    if (!loaded) throw new Error(`Could not load the handles of deed ${batchId}/${deedIndex}`);
+    return loaded;
+  }
+
+  invalidate() {
+    this.#generation++;
+    this.#handles.clear();
+    this.#pages.clear();
+    this.#notify();
+  }
+
+  #notify() {
+    for (const listener of this.#listeners) listener();
+  }
+
+  async #loadPage(key: string, start: DeedRef) {
+    const generation = this.#generation;
+    try {
+      const client = DeedRegistryClient.connect(this.network.registryAddress, getProviderPool(this.network).provider);
+      const page = await client.getDeedPage(start.batchId, start.deedIndex, DEED_PAGE_SIZE);
+      if (generation !== this.#generation) return;
+      for (const deed of page.deeds) this.#handles.set(deedKey(start.batchId, deed.deedIndex), deed);
+      this.#notify();
+    } catch (e) {
+      console.error(`Error loading deeds ${start.deedIndex}+ of batch ${start.batchId}:`, e);
+      if (generation === this.#generation) this.#pages.delete(key);
+    }
+  }
+}
+
+const caches = new Map<number, DeedPageCache>();
+
+// One cache per chain, shared by the deed list and the detail view
+export function getDeedPageCache(network: NetworkConfig): DeedPageCache {
+  let cache = caches.get(network.chainId);
+  if (!cache) {
+    cache = new DeedPageCache(network);
+    caches.set(network.chainId, cache);
+  }
+  return cache;
+}
@@ -0,0 +1,227 @@
+// deedSync.ts
+import { DeedRegistryClient, getBlockTimestamps, queryRegistryEvents } from "../../../sdk";
+import { SNAPSHOT_STORE, openRegistryDb, promisify, registryKey, transactionDone } from "./registryDb";
+
+// Registrars are public institutions and keep their address. Anyone else acting on a deed
+// is presumed to be its owner, and neither their address nor their transaction hash is stored.
+// DeedTransferred does not name them either, but the transaction itself names its sender, so
+// anyone reading the chain can still tell who submitted it.
+export type SyncedActorRole = 'registrar' | 'owner';
+
+export interface SyncedTransfer {
+  // The deed's registrar when it made the transfer directly; null on the owner path
+  initiator: string | null;
+  role: SyncedActorRole;
+  blockNumber: number;
+  // Null for owners, whose transaction would lead straight to their address
+  transactionHash: string | null;
+  timestamp: number;
+}
+
+// A registrar granting the transfer recipient's wallet access to the deed's handles.
+// The event deliberately omits the grantee.
+export interface SyncedGrant {
+  grantedBy: string;
+  blockNumber: number;
+  transactionHash: string;
+  timestamp: number;
+}
+
+// Encrypted handles are not part of the snapshot: transfers replace them, and a large
+// registry's handles would make every snapshot write huge. deedPages.ts reads them on demand.
+export interface SyncedDeed {
+  batchId: number;
+  deedIndex: number;
+  provider: string;
+  blockNumber: number;
+  transactionHash: string;
+  timestamp: number;
+  transfers: SyncedTransfer[];
+  grants: SyncedGrant[];
+}
+
+// uint256 values are kept as decimal strings so the snapshot stays JSON-serialisable
+export interface SyncedDecryption {
+  requestId: string;
+  requestedAtBlock: number;
+  requestTransactionHash: string;
+  requestedAt: number;
+  completedAtBlock: number | null;
+  completedTransactionHash: string | null;
+  completedAt: number | null;
+  propertyValueSum: string | null;
+}
+
+export interface SyncedBatch {
+  batchId: number;
+  openedAtBlock: number;
+  closedAtBlock: number | null;
+  decryptions: SyncedDecryption[];
+}
+
+export interface RegistrySnapshot {
+  version: number;
+  chainId: number;
+  registryAddress: string;
+  lastSyncedBlock: number;
+  // Hash of lastSyncedBlock; null before anything was synced. If the chain no longer has
+  // this block, a reorg may have removed events the snapshot holds.
+  lastSyncedBlockHash: string | null;
+  deeds: SyncedDeed[];
+  batches: SyncedBatch[];
+}
+
+const CACHE_VERSION = 10;
+// Where snapshots were kept before they moved to IndexedDB
+const legacyCacheKey = (chainId: number, registryAddress: string) => `deed-registry:snapshot:${chainId}:${registryAddress.toLowerCase()}`;
+
+const emptySnapshot = (chainId: number, registryAddress: string, startBlock: number): RegistrySnapshot => ({
+  version: CACHE_VERSION,
+  chainId,
+  registryAddress,
+  lastSyncedBlock: startBlock - 1,
+  lastSyncedBlockHash: null,
+  deeds: [],
+  batches: []
+});
+
+export async function loadCachedSnapshot(chainId: number, registryAddress: string, startBlock: number): Promise<RegistrySnapshot> {
+  localStorage.removeItem(legacyCacheKey(chainId, registryAddress));
+  try {
+    const db = await openRegistryDb();
+    const tx = db.transaction(SNAPSHOT_STORE, "readonly");
+    const cached = await promisify<RegistrySnapshot | undefined>(tx.objectStore(SNAPSHOT_STORE).get(registryKey(chainId, registryAddress)));
+    if (!cached || cached.version !== CACHE_VERSION) {
+      return emptySnapshot(chainId, registryAddress, startBlock);
+    }
+    return cached;
+  } catch (e) {
+    console.warn("Discarding unreadable deed cache:", e);
+    return emptySnapshot(chainId, registryAddress, startBlock);
+  }
+}
+
+// A snapshot that cannot be saved is still returned, so the list renders; the next load
+// just syncs from the last snapshot that was saved.
+async function saveSnapshot(snapshot: RegistrySnapshot) {
+  try {
+    const db = await openRegistryDb();
+    const tx = db.transaction(SNAPSHOT_STORE, "readwrite");
+    tx.objectStore(SNAPSHOT_STORE).put(snapshot, registryKey(snapshot.chainId, snapshot.registryAddress));
+    await transactionDone(tx);
+  } catch (e) {
+    console.warn("Failed to persist deed cache:", e);
+  }
+}
+
+// Applies registry events emitted after the cached block and persists the result.
+export async function syncRegistrySnapshot(client: DeedRegistryClient, startBlock: number): Promise<RegistrySnapshot> {
+  const provider = client.contract.runner?.provider;
+  if (!provider) throw new Error("Registry client has no provider");
+
+  const [{ chainId }, head] = await Promise.all([provider.getNetwork(), provider.getBlock("latest")]);
+  if (!head) throw new Error("Latest block not available from provider");
+  let snapshot = await loadCachedSnapshot(Number(chainId), client.address, startBlock);
+  // A cache ahead of the chain means a local node was restarted, and a different hash at the
+  // last synced block means a reorg replaced blocks it was built from; either way start over
+  if (snapshot.lastSyncedBlock > head.number) {
+    snapshot = emptySnapshot(Number(chainId), client.address, startBlock);
+  } else if (snapshot.lastSyncedBlockHash !== null) {
+    const synced = await provider.getBlock(snapshot.lastSyncedBlock);
+    if (synced?.hash !== snapshot.lastSyncedBlockHash) {
+      snapshot = emptySnapshot(Number(chainId), client.address, startBlock);
+    }
+  }
+  const { events, toBlock } = await queryRegistryEvents(client, [
+    "DeedRegistered",
+    "DeedTransferred",
+    "DeedAccessGranted",
+    "BatchOpened",
+    "BatchClosed",
+    "DecryptionRequested",
+    "DecryptionCompleted"
+  ], {
+    fromBlock: snapshot.lastSyncedBlock + 1,
+    toBlock: head.number
+  });
+  // A reorg during the queries may have mixed blocks from two forks; keep what was saved
+  // and let the next sync retry
+  if ((await provider.getBlock(head.number))?.hash !== head.hash) return snapshot;
+
+  const timestamps = await getBlockTimestamps(provider, events
+    .filter(e => e.name !== "BatchOpened" && e.name !== "BatchClosed")
+    .map(e => e.blockNumber));
+  const batches = new Map(snapshot.batches.map(b => [b.batchId, b]));
+  const deeds = [...snapshot.deeds];
+  const deedKey = (batchId: number, deedIndex: number) => `${batchId}:${deedIndex}`;
+  const deedsByKey = new Map(deeds.map(d => [deedKey(d.batchId, d.deedIndex), d]));
+
+  for (const event of events) {
+    if (event.name === "BatchOpened") {
+      const batchId = Number(event.batchId);
+      batches.set(batchId, { batchId, openedAtBlock: event.blockNumber, closedAtBlock: null, decryptions: [] });
+    } else if (event.name === "BatchClosed") {
+      const batch = batches.get(Number(event.batchId));
+      if (batch) batch.closedAtBlock = event.blockNumber;
+    } else if (event.name === "DecryptionRequested") {
+      batches.get(Number(event.batchId))?.decryptions.push({
+        requestId: event.requestId.toString(),
+        requestedAtBlock: event.blockNumber,
+        requestTransactionHash: event.transactionHash,
+        requestedAt: timestamps.get(event.blockNumber)!,
+        completedAtBlock: null,
+        completedTransactionHash: null,
+        completedAt: null,
+        propertyValueSum: null
+      });
+    } else if (event.name === "DecryptionCompleted") {
+      const request = batches.get(Number(event.batchId))?.decryptions.find(d => d.requestId === event.requestId.toString());
+      if (request) {
+        request.completedAtBlock = event.blockNumber;
+        request.completedTransactionHash = event.transactionHash;
+        request.completedAt = timestamps.get(event.blockNumber)!;
+        request.propertyValueSum = event.propertyValueSum.toString();
+      }
+    } else if (event.name === "DeedRegistered") {
+      deeds.push({
+        batchId: Number(event.batchId),
+        deedIndex: Number(event.deedIndex),
+        provider: event.provider,
+        blockNumber: event.blockNumber,
+        transactionHash: event.transactionHash,
+        timestamp: timestamps.get(event.blockNumber)!,
+        transfers: [],
+        grants: []
+      });
+      deedsByKey.set(deedKey(Number(event.batchId), Number(event.deedIndex)), deeds[deeds.length - 1]);
+    } else if (event.name === "DeedTransferred") {
+      const deed = deedsByKey.get(deedKey(Number(event.batchId), Number(event.deedIndex)));
+      if (!deed) continue;
+      const isRegistrar = event.byRegistrar;
+      deed.transfers.push({
+        initiator: isRegistrar ? deed.provider : null,
+        role: isRegistrar ? 'registrar' : 'owner',
+        blockNumber: event.blockNumber,
+        transactionHash: isRegistrar ? event.transactionHash : null,
+        timestamp: timestamps.get(event.blockNumber)!
+      });
+    } else if (event.name === "DeedAccessGranted") {
+      deedsByKey.get(deedKey(Number(event.batchId), Number(event.deedIndex)))?.grants.push({
+        grantedBy: event.grantedBy,
+        blockNumber: event.blockNumber,
+        transactionHash: event.transactionHash,
+        timestamp: timestamps.get(event.blockNumber)!
+      });
+    }
+  }
+
+  const next: RegistrySnapshot = {
+    ...snapshot,
+    lastSyncedBlock: toBlock,
+    lastSyncedBlockHash: head.hash,
+    deeds,
+    batches: [...batches.values()].sort((a, b) => a.batchId - b.batchId)
+  };
+  await saveSnapshot(next);
+  return next;
+}
@@ -0,0 +1,102 @@
+// fhe.ts
+import { initSDK, createInstance, SepoliaConfig } from "@zama-fhe/relayer-sdk/web";
+import { ethers } from "ethers";
+import {
+  assertDecryptionAllowed as assertAllowedOnAcl,
+  createUserDecryptionSession as createSession,
+  encryptDeed,
+  encryptDeedTransfer,
+  userDecryptHandles,
+} from "../../../sdk";
+import type { DeedPlaintext, DeedTransferPlaintext, EncryptedDeedInput, EncryptedTransferInput, FhevmClient, TypedDataSigner, UserDecryptionSession } from "../../../sdk";
+import { NetworkConfig, RelayerSettings, getActiveNetwork } from "./networks";
+
+export { isSessionValid } from "../../../sdk";
+export type { DeedPlaintext, DeedTransferPlaintext, EncryptedDeedInput, EncryptedTransferInput, TypedDataSigner, UserDecryptionSession } from "../../../sdk";
+
+const instances = new Map<number, Promise<FhevmClient>>();
+
+const localNodeProvider = (network: NetworkConfig) =>
+  new ethers.JsonRpcProvider(network.rpcUrls[0], network.chainId, { staticNetwork: true });
+
+// A local Hardhat node reports its mock FHEVM contract addresses over a custom RPC method
+const fetchMockMetadata = (provider: ethers.JsonRpcProvider) => provider.send("fhevm_relayer_metadata", []);
+
+async function createMockInstance(network: NetworkConfig, relayer: Extract<RelayerSettings, { kind: 'mock' }>): Promise<FhevmClient> {
+  const { MockFhevmInstance } = await import("@fhevm/mock-utils");
+  const provider = localNodeProvider(network);
+  const metadata = await fetchMockMetadata(provider);
+  return MockFhevmInstance.create(provider, provider, {
+    aclContractAddress: metadata.ACLAddress,
+    chainId: network.chainId,
+    gatewayChainId: metadata.gatewayChainId,
+    inputVerifierContractAddress: metadata.InputVerifierAddress,
+    kmsContractAddress: metadata.KMSVerifierAddress,
+    verifyingContractAddressDecryption: relayer.verifyingContractAddressDecryption,
+    verifyingContractAddressInputVerification: relayer.verifyingContractAddressInputVerification
+  });
+}
+
+// Relayer client for the active network, created once per chain
+export function getFhevmInstance(): Promise<FhevmClient> {
+  const network = getActiveNetwork();
+  let instancePromise = instances.get(network.chainId);
+  if (!instancePromise) {
+    instancePromise = (async () => {
+      const relayer = network.relayer;
+      if (relayer.kind === 'mock') {
+        return createMockInstance(network, relayer);
+      }
+      const wallet = window.ethereum;
+      if (!wallet) {
+        throw new Error("No injected wallet");
+      }
+      await initSDK();
+      return createInstance({ ...SepoliaConfig, relayerUrl: relayer.relayerUrl, network: wallet });
+    })();
+    instances.set(network.chainId, instancePromise);
+    instancePromise.catch(() => { instances.delete(network.chainId); });
+  }
+  return instancePromise;
+}
+
+// ACL address of the active network; the mock deploys its own
+async function getAclAddress(): Promise<string> {
+  const network = getActiveNetwork();
+  if (network.relayer.kind === 'mock') {
+    return (await fetchMockMetadata(localNodeProvider(network))).ACLAddress;
+  }
+  return SepoliaConfig.aclContractAddress;
+}
+
+export async function encryptDeedInput(contractAddress: string, userAddress: string, deed: DeedPlaintext): Promise<EncryptedDeedInput> {
+  return encryptDeed(await getFhevmInstance(), contractAddress, userAddress, deed);
+}
+
+export async function encryptTransferInput(contractAddress: string, userAddress: string, transfer: DeedTransferPlaintext): Promise<EncryptedTransferInput> {
+  return encryptDeedTransfer(await getFhevmInstance(), contractAddress, userAddress, transfer);
+}
+
+export async function createUserDecryptionSession(
+  userAddress: string,
+  contractAddresses: string[],
+  startTimestamp: number,
+  durationDays: number,
+  signTypedData: TypedDataSigner
+): Promise<UserDecryptionSession> {
+  return createSession(await getFhevmInstance(), userAddress, contractAddresses, startTimestamp, durationDays, signTypedData);
+}
+
+export async function assertDecryptionAllowed(handle: string, contractAddress: string, userAddress: string) {
+  if (!window.ethereum) {
+    throw new Error("No injected wallet");
+  }
+  const provider = new ethers.BrowserProvider(window.ethereum);
+  await assertAllowedOnAcl(provider, await getAclAddress(), handle, contractAddress, userAddress);
+}
+
+export async function userDecryptHandle(handle: string, contractAddress: string, session: UserDecryptionSession): Promise<bigint> {
+  await assertDecryptionAllowed(handle, contractAddress, session.userAddress);
+  const values = await userDecryptHandles(await getFhevmInstance(), [handle], contractAddress, session);
+  return values[handle];
+}
@@ -2,18 +2,29 @@ import React, { useEffect, useState } from 'react';
 import { createRoot } from 'react-dom/client';
 import App from './App';
 import { getDefaultConfig, RainbowKitProvider, lightTheme } from '@rainbow-me/rainbowkit';
-import { WagmiConfig } from 'wagmi';
+import { WagmiConfig, fallback, http } from 'wagmi';
 import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
 import '@rainbow-me/rainbowkit/styles.css';
-import { sepolia } from 'wagmi/chains';
+import { hardhat, sepolia } from 'wagmi/chains';
 import { BrowserRouter } from 'react-router-dom';
+import { HARDHAT_CHAIN_ID, SEPOLIA_CHAIN_ID, getNetwork } from './networks';
 
 const projectId = '4eeb32175359e6b21f4e3ceae163ccea';
 
+const sepoliaNetwork = getNetwork(SEPOLIA_CHAIN_ID)!;
+const hardhatNetwork = getNetwork(HARDHAT_CHAIN_ID)!;
+
 const config = getDefaultConfig({
   appName: '',
   projectId: projectId,
-  chains: [sepolia],
+  chains: [
+    sepolia,
+    { ...hardhat, rpcUrls: { default: { http: hardhatNetwork.rpcUrls } } }
+  ],
+  transports: {
+    [sepolia.id]: fallback(sepoliaNetwork.rpcUrls.map(url => http(url))),
+    [hardhat.id]: http(hardhatNetwork.rpcUrls[0])
+  }
 });
 
 const queryClient = new QueryClient();
@@ -0,0 +1,115 @@
+// networks.ts
+import configJson from "./config.json";
+
+// Relayer used to encrypt inputs and user-decrypt handles on a chain.
+// "zama" talks to Zama's hosted relayer with the FHEVM addresses bundled in the relayer SDK;
+// "mock" runs the relayer in the browser against the FHEVM mock of a local Hardhat node.
+export type RelayerSettings =
+  | { kind: 'zama'; relayerUrl: string }
+  | { kind: 'mock'; verifyingContractAddressDecryption: string; verifyingContractAddressInputVerification: string };
+
+export interface NetworkConfig {
+  chainId: number;
+  // Hardhat network name, as used by `--network` and the deployment records
+  name: string;
+  label: string;
+  rpcUrls: string[];
+  explorerUrl: string | null;
+  // Confirmations, counting the transaction's own block, before the UI treats it as final
+  confirmations: number;
+  registryAddress: string;
+  registryDeployBlock: number;
+  adapterAddress: string;
+  relayer: RelayerSettings;
+}
+
+// Deployment addresses written per chain id into config.json
+interface DeploymentConfig {
+  registryAddress: string;
+  registryDeployBlock: number;
+  adapterAddress: string;
+  deployer: string;
+}
+
+// Only the variables listed in vite.config.ts reach the bundle
+const env = (name: string): string | undefined => {
+  const value = __RUNTIME_ENV__[name]?.trim();
+  return value ? value : undefined;
+};
+
+const envList = (name: string): string[] | undefined =>
+  env(name)?.split(',').map(url => url.trim()).filter(url => url !== '');
+
+const deployments = configJson.networks as Record<string, DeploymentConfig | undefined>;
+
+const deployment = (chainId: number): DeploymentConfig => deployments[String(chainId)] ?? {
+  registryAddress: "",
+  registryDeployBlock: 0,
+  adapterAddress: "",
+  deployer: ""
+};
+
+const withDeployment = (chainId: number) => {
+  const { registryAddress, registryDeployBlock, adapterAddress } = deployment(chainId);
+  return { registryAddress, registryDeployBlock, adapterAddress };
+};
+
+export const SEPOLIA_CHAIN_ID = 11155111;
+export const HARDHAT_CHAIN_ID = 31337;
+
+export const NETWORKS: NetworkConfig[] = [
+  {
+    chainId: SEPOLIA_CHAIN_ID,
+    name: "sepolia",
+    label: "Sepolia",
+    // Keyless public endpoints; set SEPOLIA_RPC_URLS to use your own
+    rpcUrls: envList('SEPOLIA_RPC_URLS') ?? [
+      "https://ethereum-sepolia-rpc.publicnode.com",
+      "https://rpc.sepolia.org",
+      "https://eth-sepolia.public.blastapi.io"
+    ],
+    explorerUrl: "https://sepolia.etherscan.io",
+    confirmations: 3,
+    ...withDeployment(SEPOLIA_CHAIN_ID),
+    relayer: { kind: 'zama', relayerUrl: env('SEPOLIA_RELAYER_URL') ?? "https://relayer.testnet.zama.cloud" }
+  },
+  {
+    chainId: HARDHAT_CHAIN_ID,
+    name: "hardhat",
+    label: "Hardhat (local)",
+    rpcUrls: [env('HARDHAT_RPC_URL') ?? "http://127.0.0.1:8545"],
+    explorerUrl: null,
+    // Automine only produces a block per transaction, so nothing would ever confirm it further
+    confirmations: 1,
+    ...withDeployment(HARDHAT_CHAIN_ID),
+    // Fixed addresses of the mock gateway contracts deployed by @fhevm/hardhat-plugin
+    relayer: {
+      kind: 'mock',
+      verifyingContractAddressDecryption: "0x5ffdaAB0373E62E2ea2944776209aEf29E631A64",
+      verifyingContractAddressInputVerification: "0x812b06e1CDCE800494b79fFE4f925A504a9A9810"
+    }
+  }
+];
+
+export function getNetwork(chainId: number | undefined): NetworkConfig | undefined {
+  return NETWORKS.find(n => n.chainId === chainId);
+}
+
+export const DEFAULT_NETWORK: NetworkConfig =
+  getNetwork(Number(env('DEFAULT_CHAIN_ID') ?? configJson.defaultChainId)) ?? NETWORKS[0];
+
+// The network the read-only clients and the relayer are bound to. It follows the
+// connected wallet's chain and falls back to the default network when disconnected.
+let activeNetwork: NetworkConfig = DEFAULT_NETWORK;
+
+export function getActiveNetwork(): NetworkConfig {
+  return activeNetwork;
+}
+
+export function setActiveNetwork(network: NetworkConfig) {
+  activeNetwork = network;
+}
+
+export function explorerTxUrl(network: NetworkConfig, hash: string): string | null {
+  return network.explorerUrl ? `${network.explorerUrl}/tx/${hash}` : null;
+}
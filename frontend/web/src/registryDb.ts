@@ -0,0 +1,64 @@
+// registryDb.ts
+// The browser's IndexedDB copy of registry data: activity history (activityHistory.ts) and
+// deed snapshots (deedSync.ts). Both share one database so its upgrades happen in one place.
+
+const DB_NAME = "deed-registry";
+// Version 2 keys the activity sync state and rows by chain as well as registry address.
+// Version 3 adds the deed snapshots, which outgrew localStorage.
+const DB_VERSION = 3;
+
+export const ACTIVITY_STORE = "activity";
+export const ACTIVITY_SYNC_STORE = "activitySync";
+export const SNAPSHOT_STORE = "snapshots";
+export const BY_ACCOUNT = "byAccount";
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+export function openRegistryDb(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+      if (typeof indexedDB === "undefined") {
+        reject(new Error("IndexedDB is not available in this browser"));
+        return;
+      }
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = (event) => {
+        const db = request.result;
+        if (event.oldVersion < 2) {
+          // Version 1 rows do not say which chain they came from, so they are dropped; chain
+          // rows are synced again and only this browser's local decryptions are lost
+          for (const name of Array.from(db.objectStoreNames)) db.deleteObjectStore(name);
+          const activity = db.createObjectStore(ACTIVITY_STORE, { keyPath: "id" });
+          activity.createIndex(BY_ACCOUNT, ["accountKey", "timestamp"]);
+          db.createObjectStore(ACTIVITY_SYNC_STORE, { keyPath: "key" });
+        }
+        if (event.oldVersion < 3) {
+          // Keyed by `${chainId}:${registryAddress}`, lower-cased
+          db.createObjectStore(SNAPSHOT_STORE);
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    // Let the next caller retry instead of caching a failed open
+    dbPromise.catch(() => { dbPromise = null; });
+  }
+  return dbPromise;
+}
+
+export function promisify<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+export function transactionDone(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error ?? new Error("IndexedDB transaction aborted"));
+  });
+}
+
+export const registryKey = (chainId: number, registryAddress: string) => `${chainId}:${registryAddress.toLowerCase()}`;
@@ -0,0 +1,44 @@
+// routes.ts
+import { matchPath } from "react-router-dom";
+
+export type AppTab = 'deeds' | 'batches' | 'activity' | 'admin' | 'faq';
+
+export const TAB_PATHS: Record<AppTab, string> = {
+  deeds: "/deeds",
+  batches: "/batches",
+  activity: "/activity",
+  admin: "/admin",
+  faq: "/faq"
+};
+
+export const deedPath = (batchId: number, deedIndex: number) => `/deeds/${batchId}/${deedIndex}`;
+export const batchPath = (batchId: number) => `/batches/${batchId}`;
+
+// What the URL selects: the tab, plus the deed or batch whose detail modal is open
+export interface AppRoute {
+  tab: AppTab;
+  deed: { batchId: number; deedIndex: number } | null;
+  batchId: number | null;
+}
+
+const parseId = (value: string | undefined, min: number) => {
+  const id = Number(value);
+  return Number.isInteger(id) && id >= min ? id : null;
+};
+
+// Null for a path the app does not know, which is redirected to the deed list
+export function parseRoute(pathname: string): AppRoute | null {
+  const deed = matchPath("/deeds/:batchId/:index", pathname);
+  if (deed) {
+    const batchId = parseId(deed.params.batchId, 1);
+    const deedIndex = parseId(deed.params.index, 0);
+    return batchId !== null && deedIndex !== null ? { tab: 'deeds', deed: { batchId, deedIndex }, batchId: null } : null;
+  }
+  const batch = matchPath("/batches/:batchId", pathname);
+  if (batch) {
+    const batchId = parseId(batch.params.batchId, 1);
+    return batchId !== null ? { tab: 'batches', deed: null, batchId } : null;
+  }
+  const tab = (Object.keys(TAB_PATHS) as AppTab[]).find(t => matchPath(TAB_PATHS[t], pathname));
+  return tab ? { tab, deed: null, batchId: null } : null;
+}
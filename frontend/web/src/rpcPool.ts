@@ -0,0 +1,301 @@
+// rpcPool.ts
+import { ethers } from "ethers";
+import type { ErrorCode, PerformActionRequest } from "ethers";
+import type { NetworkConfig } from "./networks";
+
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+// Snapshot of one endpoint's health, as shown in the RPC debug panel
+export interface EndpointHealth {
+  // Origin only; API keys in the path or query string are not shown
+  label: string;
+  state: CircuitState;
+  // Exponentially weighted averages over recent requests
+  latencyMs: number | null;
+  errorRate: number;
+  score: number;
+  requests: number;
+  failures: number;
+  consecutiveFailures: number;
+  openUntil: number | null;
+  lastError: string | null;
+}
+
+interface Endpoint {
+  index: number;
+  label: string;
+  provider: ethers.JsonRpcProvider;
+  state: CircuitState;
+  latencyMs: number | null;
+  errorRate: number;
+  requests: number;
+  failures: number;
+  consecutiveFailures: number;
+  openUntil: number | null;
+  // Cooldown applied the next time the circuit opens; doubles on every failed trial
+  cooldownMs: number;
+  trialInFlight: boolean;
+  lastError: string | null;
+}
+
+const REQUEST_TIMEOUT_MS = 8000;
+// Latency assumed for an endpoint that has not answered yet, so config order decides the first pick
+const DEFAULT_LATENCY_MS = 500;
+const EWMA_WEIGHT = 0.2;
+// How strongly the recent error rate pushes an endpoint down the ranking
+const ERROR_PENALTY = 4;
+const FAILURE_THRESHOLD = 3;
+const BASE_COOLDOWN_MS = 15000;
+const MAX_COOLDOWN_MS = 5 * 60 * 1000;
+
+// Errors that mean the endpoint answered correctly and the request itself failed,
+// e.g. a revert. Anything else is blamed on the endpoint and retried elsewhere.
+const ANSWERED_ERRORS: ErrorCode[] = ["CALL_EXCEPTION", "INSUFFICIENT_FUNDS", "NONCE_EXPIRED", "REPLACEMENT_UNDERPRICED", "INVALID_ARGUMENT"];
+
+const isAnswered = (error: unknown) => ANSWERED_ERRORS.some(code => ethers.isError(error, code));
+
+function endpointLabel(url: string): string {
+  try {
+    const parsed = new URL(url);
+    return parsed.pathname.length > 1 || parsed.search ? `${parsed.origin}/…` : parsed.origin;
+  } catch {
+    return "invalid URL";
+  }
+}
+
+const score = (endpoint: Endpoint) =>
+  (endpoint.latencyMs ?? DEFAULT_LATENCY_MS) * (1 + ERROR_PENALTY * endpoint.errorRate);
+
+const withTimeout = <T>(promise: Promise<T>, ms: number): Promise<T> => Promise.race([
+  promise,
+  new Promise<T>((_, reject) => setTimeout(() => reject(new Error(`RPC request timed out after ${ms}ms`)), ms))
+]);
+
+// Long-lived set of RPC endpoints for one network. Reads go to the healthiest endpoint and
+// fail over to the next one; an endpoint that keeps failing has its circuit opened and is
+// skipped until a single trial request after the cooldown succeeds.
+export class RpcProviderPool {
+  readonly network: NetworkConfig;
+  // Routes every read through the pool
+  readonly provider: ethers.AbstractProvider;
+  // Same, but eth_call results must match on two endpoints at the same block
+  readonly quorumProvider: ethers.AbstractProvider;
+  // False with a single configured endpoint (e.g. a local node): quorumProvider then reads
+  // from it alone, and the RPC health panel says its answers are unverified
+  readonly quorumVerified: boolean;
+  #endpoints: Endpoint[];
+
+  constructor(network: NetworkConfig) {
+    this.network = network;
+    const staticNetwork = new ethers.Network(network.name, network.chainId);
+    this.#endpoints = network.rpcUrls.map((url, index) => ({
+      index,
+      label: endpointLabel(url),
+      provider: new ethers.JsonRpcProvider(url, staticNetwork, { staticNetwork }),
+      state: 'closed',
+      latencyMs: null,
+      errorRate: 0,
+      requests: 0,
+      failures: 0,
+      consecutiveFailures: 0,
+      openUntil: null,
+      cooldownMs: BASE_COOLDOWN_MS,
+      trialInFlight: false,
+      lastError: null
+    }));
+    this.provider = new PooledProvider(this, staticNetwork, 1);
+    this.quorumVerified = this.#endpoints.length >= 2;
+    if (!this.quorumVerified) {
+      console.warn(`Only one ${network.label} RPC endpoint is configured; quorum reads are not verified`);
+    }
+    this.quorumProvider = new PooledProvider(this, staticNetwork, this.quorumVerified ? 2 : 1);
+  }
+
+  getHealth(): EndpointHealth[] {
+    return this.#endpoints.map(e => ({
+      label: e.label,
+      state: e.state,
+      latencyMs: e.latencyMs,
+      errorRate: e.errorRate,
+      score: score(e),
+      requests: e.requests,
+      failures: e.failures,
+      consecutiveFailures: e.consecutiveFailures,
+      openUntil: e.openUntil,
+      lastError: e.lastError
+    }));
+  }
+
+  // Endpoints that may take a request now, healthiest first. An open circuit whose
+  // cooldown has passed turns half-open and admits exactly one trial request.
+  #available(): Endpoint[] {
+    const now = Date.now();
+    return this.#endpoints
+      .filter(e => e.state === 'closed' || (!e.trialInFlight && e.openUntil !== null && now >= e.openUntil))
+      .sort((a, b) => score(a) - score(b) || a.index - b.index);
+  }
+
+  // Claims the endpoint for one request, making it the trial if its circuit has cooled down.
+  // Checked again at dispatch because a candidate list goes stale while earlier candidates
+  // are tried, and another request may have started the trial meanwhile.
+  #admit(endpoint: Endpoint): boolean {
+    if (endpoint.state === 'closed') return true;
+    if (endpoint.trialInFlight || endpoint.openUntil === null || Date.now() < endpoint.openUntil) return false;
+    endpoint.state = 'half-open';
+    endpoint.trialInFlight = true;
+    return true;
+  }
+
+  #unavailableError(): Error {
+    const reopensAt = Math.min(...this.#endpoints.map(e => e.openUntil ?? Infinity));
+    const wait = Number.isFinite(reopensAt) ? ` Retrying in ${Math.max(1, Math.ceil((reopensAt - Date.now()) / 1000))}s.` : "";
+    return new Error(`All ${this.network.label} RPC endpoints are failing.${wait}`);
+  }
+
+  #recordSuccess(endpoint: Endpoint, latencyMs: number) {
+    endpoint.latencyMs = endpoint.latencyMs === null ? latencyMs : endpoint.latencyMs + EWMA_WEIGHT * (latencyMs - endpoint.latencyMs);
+    endpoint.errorRate *= 1 - EWMA_WEIGHT;
+    endpoint.consecutiveFailures = 0;
+    endpoint.state = 'closed';
+    endpoint.openUntil = null;
+    endpoint.cooldownMs = BASE_COOLDOWN_MS;
+  }
+
+  #recordFailure(endpoint: Endpoint, error: unknown) {
+    endpoint.failures++;
+    endpoint.errorRate += EWMA_WEIGHT * (1 - endpoint.errorRate);
+    endpoint.consecutiveFailures++;
+    const fields = error as { shortMessage?: string; message?: string } | null;
+    endpoint.lastError = fields?.shortMessage ?? fields?.message ?? String(error);
+    if (endpoint.state === 'half-open') {
+      endpoint.cooldownMs = Math.min(endpoint.cooldownMs * 2, MAX_COOLDOWN_MS);
+    }
+    if (endpoint.state === 'half-open' || endpoint.consecutiveFailures >= FAILURE_THRESHOLD) {
+      endpoint.state = 'open';
+      endpoint.openUntil = Date.now() + endpoint.cooldownMs;
+    }
+  }
+
+  async #send<T>(endpoint: Endpoint, req: PerformActionRequest): Promise<T> {
+    if (!this.#admit(endpoint)) {
+      throw new Error(`${endpoint.label} is cooling down after failures`);
+    }
+    endpoint.requests++;
+    const started = performance.now();
+    try {
+      const result = await withTimeout<T>(endpoint.provider._perform(req), REQUEST_TIMEOUT_MS);
+      this.#recordSuccess(endpoint, performance.now() - started);
+      return result;
+    } catch (error) {
+      if (isAnswered(error)) {
+        this.#recordSuccess(endpoint, performance.now() - started);
+      } else {
+        this.#recordFailure(endpoint, error);
+      }
+      throw error;
+    } finally {
+      endpoint.trialInFlight = false;
+    }
+  }
+
+  // Sends the request to the healthiest endpoint, failing over on endpoint errors
+  async perform<T>(req: PerformActionRequest): Promise<T> {
+    const candidates = this.#available();
+    if (candidates.length === 0) throw this.#unavailableError();
+    let lastError: unknown;
+    for (const endpoint of candidates) {
+      try {
+        return await this.#send<T>(endpoint, req);
+      } catch (error) {
+        if (isAnswered(error)) throw error;
+        lastError = error;
+      }
+    }
+    throw lastError;
+  }
+
+  // Runs an eth_call on `quorum` distinct endpoints and only returns if they all agree.
+  // "latest" is pinned to the lowest head among them so that lagging nodes are compared
+  // at the same block rather than reported as a mismatch.
+  async performWithQuorum(req: Extract<PerformActionRequest, { method: "call" }>, quorum: number): Promise<string> {
+    const candidates = this.#available();
+    if (candidates.length < quorum) {
+      if (candidates.length === 0) throw this.#unavailableError();
+      throw new Error(`Quorum read needs ${quorum} healthy ${this.network.label} RPC endpoints; only ${candidates.length} available`);
+    }
+
+    // Take the healthiest endpoints that can report their head, replacing any that fail
+    const chosen: { endpoint: Endpoint, head: number }[] = [];
+    for (const endpoint of candidates) {
+      if (chosen.length === quorum) break;
+      try {
+        chosen.push({ endpoint, head: ethers.getNumber(await this.#send<string>(endpoint, { method: "getBlockNumber" })) });
+      } catch {
+        // Already recorded against the endpoint, or it was not admitted; try the next one
+      }
+    }
+    if (chosen.length < quorum) {
+      throw new Error(`Quorum read needs ${quorum} healthy ${this.network.label} RPC endpoints; only ${chosen.length} responded`);
+    }
+
+    const pinned = req.blockTag === undefined || req.blockTag === "latest" || req.blockTag === "pending"
+      ? ethers.toQuantity(Math.min(...chosen.map(c => c.head)))
+      : req.blockTag;
+    const outcomes = await Promise.all(chosen.map(({ endpoint }) =>
+      this.#send<string>(endpoint, { ...req, blockTag: pinned }).then(
+        result => ({ ok: true as const, value: ethers.hexlify(result) }),
+        error => ({ ok: false as const, error })
+      )
+    ));
+
+    const endpointFailure = outcomes.find(o => !o.ok && !isAnswered(o.error));
+    if (endpointFailure && !endpointFailure.ok) throw endpointFailure.error;
+    // Reverts are compared by their revert data, results by their return data
+    const fingerprint = (o: typeof outcomes[number]) => o.ok ? `ok:${o.value}` : `revert:${o.error?.data ?? ""}`;
+    const first = outcomes[0];
+    if (outcomes.some(o => fingerprint(o) !== fingerprint(first))) {
+      const labels = chosen.map(c => c.endpoint.label).join(", ");
+      throw new Error(`RPC endpoints disagree on a quorum read at block ${Number(pinned)} (${labels}); refusing to trust either answer`);
+    }
+    if (!first.ok) throw first.error;
+    return first.value;
+  }
+}
+
+// ethers provider backed by the pool. Contract reads, log queries and polling all go
+// through `_perform`, which is the only method a provider subclass has to supply.
+class PooledProvider extends ethers.AbstractProvider {
+  #pool: RpcProviderPool;
+  #network: ethers.Network;
+  #quorum: number;
+
+  constructor(pool: RpcProviderPool, network: ethers.Network, quorum: number) {
+    super(network);
+    this.#pool = pool;
+    this.#network = network;
+    this.#quorum = quorum;
+  }
+
+  async _detectNetwork(): Promise<ethers.Network> {
+    return this.#network;
+  }
+
+  async _perform<T = any>(req: PerformActionRequest): Promise<T> {
+    if (req.method === "call" && this.#quorum > 1) {
+      return this.#pool.performWithQuorum(req, this.#quorum) as Promise<T>;
+    }
+    return this.#pool.perform<T>(req);
+  }
+}
+
+const pools = new Map<number, RpcProviderPool>();
+
+// One pool per chain for the lifetime of the page, so health data accumulates across reads
+export function getProviderPool(network: NetworkConfig): RpcProviderPool {
+  let pool = pools.get(network.chainId);
+  if (!pool) {
+    pool = new RpcProviderPool(network);
+    pools.set(network.chainId, pool);
+  }
+  return pool;
+}
@@ -0,0 +1,266 @@
+// txTracker.ts
+import { ethers } from "ethers";
+import { describeRegistryError } from "../../../sdk";
+import { NetworkConfig, getNetwork } from "./networks";
+import { getProviderPool } from "./rpcPool";
+
+// pending → mined → (N confirmations) → success. A mined transaction whose block is
+// reorganised away becomes reorged and is followed like a pending one until it is mined
+// again; every other final state ends tracking early.
+export type TransactionState = 'pending' | 'mined' | 'success' | 'failed' | 'dropped' | 'replaced' | 'reorged';
+
+export interface TrackedTransaction {
+  hash: string;
+  chainId: number;
+  from: string;
+  nonce: number;
+  // What the user was doing, e.g. "Register deed"
+  purpose: string;
+  // Extra context shown with the record, e.g. that a transfer may be a no-op
+  note: string | null;
+  state: TransactionState;
+  blockNumber: number | null;
+  blockHash: string | null;
+  confirmations: number;
+  submittedAt: number;
+  updatedAt: number;
+  // Why a transaction failed or left the chain
+  error: string | null;
+}
+
+const FINAL_STATES: TransactionState[] = ['success', 'failed', 'dropped', 'replaced'];
+
+export const isFinal = (tx: TrackedTransaction) => FINAL_STATES.includes(tx.state);
+
+const POLL_INTERVAL_MS = 4000;
+// A transaction the RPC pool has never seen is only dropped once the wallet had time to
+// broadcast it; public endpoints can lag behind the wallet's own node by a while. A reorged
+// transaction gets the same time from when it left the chain.
+const DROP_AFTER_MS = 5 * 60 * 1000;
+// Reads may land on different endpoints, so a vanished receipt or a consumed nonce has
+// to be seen on consecutive polls before it counts
+const REQUIRED_MISSES = 2;
+const MAX_RECORDS = 25;
+const STORAGE_PREFIX = "deed-registry:transactions:";
+
+type Listener = (transactions: TrackedTransaction[]) => void;
+type TransitionListener = (tx: TrackedTransaction, previous: TransactionState) => void;
+
+// Follows the transactions sent from this browser on one network until they settle, and
+// keeps the most recent ones in localStorage so in-flight ones resume after a reload.
+export class TransactionTracker {
+  readonly network: NetworkConfig;
+  #transactions: TrackedTransaction[];
+  #listeners = new Set<Listener>();
+  #transitionListeners = new Set<TransitionListener>();
+  // Consecutive polls on which the expected receipt or transaction was missing
+  #misses = new Map<string, number>();
+  #timer: ReturnType<typeof setTimeout> | null = null;
+  #polling = false;
+
+  constructor(network: NetworkConfig) {
+    this.network = network;
+    this.#transactions = this.#load();
+    this.#schedule();
+  }
+
+  get transactions(): TrackedTransaction[] {
+    return this.#transactions;
+  }
+
+  // Called with the full list after every change; returns an unsubscribe function
+  subscribe(listener: Listener): () => void {
+    this.#listeners.add(listener);
+    return () => { this.#listeners.delete(listener); };
+  }
+
+  // Called whenever a transaction moves to another state, e.g. once it is mined
+  onTransition(listener: TransitionListener): () => void {
+    this.#transitionListeners.add(listener);
+    return () => { this.#transitionListeners.delete(listener); };
+  }
+
+  track(tx: ethers.TransactionResponse, purpose: string, note: string | null = null): TrackedTransaction {
+    const now = Date.now();
+    const record: TrackedTransaction = {
+      hash: tx.hash,
+      chainId: this.network.chainId,
+      from: ethers.getAddress(tx.from),
+      nonce: tx.nonce,
+      purpose,
+      note,
+      state: 'pending',
+      blockNumber: null,
+      blockHash: null,
+      confirmations: 0,
+      submittedAt: now,
+      updatedAt: now,
+      error: null
+    };
+    this.#commit([record, ...this.#transactions.filter(t => t.hash !== tx.hash)]);
+    this.#schedule();
+    return record;
+  }
+
+  // Removes settled transactions from the tray; in-flight ones are kept
+  clearSettled() {
+    this.#commit(this.#transactions.filter(t => !isFinal(t)));
+  }
+
+  #load(): TrackedTransaction[] {
+    try {
+      const raw = localStorage.getItem(STORAGE_PREFIX + this.network.chainId);
+      return raw ? JSON.parse(raw) as TrackedTransaction[] : [];
+    } catch {
+      return [];
+    }
+  }
+
+  #commit(transactions: TrackedTransaction[]) {
+    // Never evict a transaction that is still being followed
+    const settled = transactions.filter(isFinal);
+    const room = Math.max(0, MAX_RECORDS - (transactions.length - settled.length));
+    const keep = new Set(settled.slice(0, room));
+    this.#transactions = transactions.filter(t => !isFinal(t) || keep.has(t));
+    try {
+      localStorage.setItem(STORAGE_PREFIX + this.network.chainId, JSON.stringify(this.#transactions));
+    } catch (e) {
+      console.error("Error saving transaction history:", e);
+    }
+    for (const listener of this.#listeners) listener(this.#transactions);
+  }
+
+  #schedule() {
+    if (this.#timer !== null || !this.#transactions.some(t => !isFinal(t))) return;
+    this.#timer = setTimeout(async () => {
+      this.#timer = null;
+      await this.#poll();
+      this.#schedule();
+    }, POLL_INTERVAL_MS);
+  }
+
+  #miss(hash: string): boolean {
+    const misses = (this.#misses.get(hash) ?? 0) + 1;
+    this.#misses.set(hash, misses);
+    return misses >= REQUIRED_MISSES;
+  }
+
+  async #poll() {
+    if (this.#polling) return;
+    this.#polling = true;
+    try {
+      const provider = getProviderPool(this.network).provider;
+      const head = await provider.getBlockNumber();
+      const updates = new Map<string, TrackedTransaction>();
+      for (const tx of this.#transactions.filter(t => !isFinal(t))) {
+        try {
+          const next = await this.#check(provider, tx, head);
+          if (next !== tx) updates.set(tx.hash, { ...next, updatedAt: Date.now() });
+        } catch (e) {
+          // Endpoint trouble; the RPC pool has already recorded it, try again next poll
+          console.error(`Error checking transaction ${tx.hash}:`, e);
+        }
+      }
+      if (updates.size === 0) return;
+      const previous = new Map(this.#transactions.map(t => [t.hash, t.state]));
+      this.#commit(this.#transactions.map(t => updates.get(t.hash) ?? t));
+      for (const tx of updates.values()) {
+        if (isFinal(tx)) this.#misses.delete(tx.hash);
+        const before = previous.get(tx.hash)!;
+        if (tx.state !== before) {
+          for (const listener of this.#transitionListeners) listener(tx, before);
+        }
+      }
+    } catch (e) {
+      console.error("Error polling transactions:", e);
+    } finally {
+      this.#polling = false;
+    }
+  }
+
+  // Returns the record unchanged when nothing happened since the last poll
+  async #check(provider: ethers.Provider, tx: TrackedTransaction, head: number): Promise<TrackedTransaction> {
+    const receipt = await provider.getTransactionReceipt(tx.hash);
+
+    if (tx.state === 'mined') {
+      if (!receipt) {
+        if (!this.#miss(tx.hash)) return tx;
+        // Its nonce check starts counting afresh
+        this.#misses.delete(tx.hash);
+        return { ...tx, state: 'reorged', blockNumber: null, blockHash: null, confirmations: 0, error: `Block ${tx.blockNumber} was reorganised away; waiting for the transaction to be mined again` };
+      }
+      this.#misses.delete(tx.hash);
+      // Re-included in a different block after a reorg; confirmations restart from there
+      const confirmations = Math.max(0, head - receipt.blockNumber + 1);
+      const moved = receipt.blockHash !== tx.blockHash;
+      if (!moved && confirmations === tx.confirmations) return tx;
+      const mined = { ...tx, blockNumber: receipt.blockNumber, blockHash: receipt.blockHash, confirmations };
+      // The new block runs it against different state, so it can revert where it first succeeded
+      if (receipt.status === 0) {
+        return { ...mined, state: 'failed', error: await this.#revertReason(provider, tx.hash, receipt.blockNumber) };
+      }
+      return confirmations >= this.network.confirmations ? { ...mined, state: 'success' } : mined;
+    }
+
+    if (receipt) {
+      this.#misses.delete(tx.hash);
+      const mined = {
+        ...tx,
+        blockNumber: receipt.blockNumber,
+        blockHash: receipt.blockHash,
+        confirmations: Math.max(0, head - receipt.blockNumber + 1),
+        error: null
+      };
+      if (receipt.status === 0) {
+        return { ...mined, state: 'failed', error: await this.#revertReason(provider, tx.hash, receipt.blockNumber) };
+      }
+      return { ...mined, state: mined.confirmations >= this.network.confirmations ? 'success' : 'mined' };
+    }
+
+    // Not mined: either still waiting, or its nonce went to another transaction
+    const accountNonce = await provider.getTransactionCount(tx.from, "latest");
+    if (accountNonce > tx.nonce) {
+      if (!this.#miss(tx.hash)) return tx;
+      return { ...tx, state: 'replaced', error: `Nonce ${tx.nonce} was used by another transaction, e.g. a speed-up or cancel in the wallet` };
+    }
+    const known = await provider.getTransaction(tx.hash);
+    // A reorged record is not updated while it waits, so updatedAt is when it left the chain
+    const waitingSince = tx.state === 'reorged' ? tx.updatedAt : tx.submittedAt;
+    if (!known && Date.now() - waitingSince > DROP_AFTER_MS) {
+      return { ...tx, state: 'dropped', error: "No RPC endpoint knows this transaction any more and its nonce is still unused" };
+    }
+    this.#misses.delete(tx.hash);
+    return tx;
+  }
+
+  // Receipts carry no revert data, so the call is replayed against the parent block
+  async #revertReason(provider: ethers.Provider, hash: string, blockNumber: number): Promise<string> {
+    try {
+      const sent = await provider.getTransaction(hash);
+      if (!sent) return "Transaction reverted";
+      await provider.call({ from: sent.from, to: sent.to, data: sent.data, value: sent.value, blockTag: blockNumber - 1 });
+      return "Transaction reverted";
+    } catch (e) {
+      return await describeRegistryError(e);
+    }
+  }
+}
+
+const trackers = new Map<number, TransactionTracker>();
+
+// One tracker per chain for the lifetime of the page
+export function getTransactionTracker(network: NetworkConfig): TransactionTracker {
+  let tracker = trackers.get(network.chainId);
+  if (!tracker) {
+    tracker = new TransactionTracker(network);
+    trackers.set(network.chainId, tracker);
+  }
+  return tracker;
+}
+
+// Starts following a transaction on the chain it was sent to
+export function trackTransaction(tx: ethers.TransactionResponse, purpose: string, note: string | null = null): TrackedTransaction | null {
+  const network = getNetwork(Number(tx.chainId));
+  if (!network) return null;
+  return getTransactionTracker(network).track(tx, purpose, note);
+}
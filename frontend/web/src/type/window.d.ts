@@ -11,4 +11,7 @@ interface Window {
     selectedAddress?: string;
     chainId?: string;
   };
-}
\ No newline at end of file
+}
+
+// Allowlisted build-time environment, injected by vite.config.ts
+declare const __RUNTIME_ENV__: Record<string, string | undefined>;
@@ -1,23 +1,48 @@
-import { defineConfig } from "vite";
+import { defineConfig, loadEnv, searchForWorkspaceRoot } from "vite";
 import react from "@vitejs/plugin-react";
 
-export default defineConfig({
-  plugins: [react()],
-  define: {
-    'process.env': process.env
-  },
-  esbuild: {
-    target: "es2022",
-    supported: {
-      'import-assertions': true
-    }
-  },
-  optimizeDeps: {
-    esbuildOptions: {
+// Build-time variables exposed to the app as __RUNTIME_ENV__. Anything not listed here,
+// such as deployer keys in the shell environment, never reaches the bundle.
+const RUNTIME_ENV_ALLOWLIST = [
+  'DEFAULT_CHAIN_ID',
+  'SEPOLIA_RPC_URLS',
+  'SEPOLIA_RELAYER_URL',
+  'HARDHAT_RPC_URL'
+];
+
+export default defineConfig(({ mode }) => {
+  const env = loadEnv(mode, process.cwd(), '');
+  const runtimeEnv = Object.fromEntries(
+    RUNTIME_ENV_ALLOWLIST.filter(name => env[name] !== undefined).map(name => [name, env[name]])
+  );
+
+  return {
+    plugins: [react()],
+    define: {
+      __RUNTIME_ENV__: JSON.stringify(runtimeEnv)
+    },
+    resolve: {
+      // The shared SDK in ../../sdk must use the frontend's copy of ethers
+      dedupe: ['ethers']
+    },
+    server: {
+      fs: {
+        allow: [searchForWorkspaceRoot(process.cwd()), '../../sdk', '../../types']
+      }
+    },
+    esbuild: {
       target: "es2022",
       supported: {
         'import-assertions': true
       }
+    },
+    optimizeDeps: {
+      esbuildOptions: {
+        target: "es2022",
+        supported: {
+          'import-assertions': true
+        }
+      }
     }
-  }
-});
\ No newline at end of file
+  };
+});
@@ -2,6 +2,13 @@ import { HardhatUserConfig } from "hardhat/config";
 import "@nomicfoundation/hardhat-toolbox";
 import "@nomicfoundation/hardhat-ethers";
 import "@fhevm/hardhat-plugin";
+import "hardhat-deploy";
+
+import "./tasks/deployments";
+import "./tasks/frontendAbi";
+import "./tasks/keystores";
+import "./tasks/migrateLegacyDeeds";
+import "./tasks/registryManifest";
 
 const config: HardhatUserConfig = {
   defaultNetwork: "hardhat",
@@ -9,12 +16,20 @@ const config: HardhatUserConfig = {
     hardhat: {
       chainId: 31337,
     },
+    // A `npx hardhat node` running on this machine
+    localhost: {
+      chainId: 31337,
+      url: "http://127.0.0.1:8545",
+    },
     sepolia: {
       chainId: 11155111,
-      url: "https://sepolia.drpc.org",
-      accounts: [],
+      url: process.env.SEPOLIA_RPC_URL ?? "https://sepolia.drpc.org",
+      // Signing accounts come from the keystore named by KEYSTORE (tasks/keystores.ts)
     },
   },
+  namedAccounts: {
+    deployer: 0,
+  },
   solidity: {
     version: "0.8.24",
     settings: {
@@ -34,6 +49,8 @@ const config: HardhatUserConfig = {
     tests: "./test",
     cache: "./cache",
     artifacts: "./artifacts",
+    deploy: "./deploy",
+    deployments: "./deployments",
   },
   typechain: {
     outDir: "types",
@@ -0,0 +1,341 @@
+// sdk/client.ts
+import { ZeroAddress } from "ethers";
+import type {
+  ContractRunner,
+  ContractTransactionReceipt,
+  ContractTransactionResponse,
+} from "ethers";
+import type { DeedRegistryFHE } from "../types/contracts/Deed_Registry_FHE.sol/DeedRegistryFHE";
+import { DeedRegistryFHE__factory } from "../types/factories/contracts/Deed_Registry_FHE.sol/DeedRegistryFHE__factory";
+import { decodeRegistryLogs, findRegistryEvent } from "./events";
+import type { RegistryEvent } from "./events";
+import { encryptDeed, encryptDeedTransfer } from "./fhe";
+import type {
+  DeedPlaintext,
+  DeedTransferPlaintext,
+  EncryptedDeedInput,
+  EncryptedTransferInput,
+  FhevmClient,
+} from "./fhe";
+
+export interface DeedHandles {
+  encryptedOwnerIdentity: string;
+  encryptedPropertyId: string;
+  encryptedTransactionCount: string;
+  encryptedLastTransactionTimestamp: string;
+  encryptedPropertyValue: string;
+}
+
+export interface PagedDeed extends DeedHandles {
+  deedIndex: number;
+  registrar: string;
+}
+
+export interface DeedPage {
+  batchId: number;
+  offset: number;
+  // Deed count of the whole batch, not of this page
+  total: number;
+  deeds: PagedDeed[];
+}
+
+export interface BatchState {
+  batchId: bigint;
+  closed: boolean;
+  propertyCount: bigint;
+}
+
+export interface RegistrySettings {
+  owner: string;
+  paused: boolean;
+  cooldownSeconds: bigint;
+  currentBatchId: bigint;
+}
+
+// Inputs of the contract's `respectCooldown` check for one account. Registration and
+// decryption requests share the cooldown, which runs from the last registration.
+export interface CooldownState {
+  cooldownSeconds: bigint;
+  lastSubmissionTime: bigint;
+  lastDecryptionRequestTime: bigint;
+  // First timestamp at which `respectCooldown` passes
+  readyAt: bigint;
+  latestBlockTimestamp: bigint;
+}
+
+// Seconds until the account may submit again. The next block is stamped no earlier than
+// the latest block and, on a live chain, no earlier than the local clock.
+export function cooldownRemaining(
+  state: CooldownState,
+  nowSeconds = Math.floor(Date.now() / 1000),
+): number {
+  const latest = Number(state.latestBlockTimestamp);
+  const remaining = Number(state.readyAt) - Math.max(latest, nowSeconds);
+  return remaining > 0 ? remaining : 0;
+}
+
+export class DeedRegistryClient {
+  readonly contract: DeedRegistryFHE;
+
+  constructor(address: string, runner: ContractRunner) {
+    this.contract = DeedRegistryFHE__factory.connect(address, runner);
+  }
+
+  static connect(address: string, runner: ContractRunner): DeedRegistryClient {
+    return new DeedRegistryClient(address, runner);
+  }
+
+  get address(): string {
+    return this.contract.target as string;
+  }
+
+  connect(runner: ContractRunner): DeedRegistryClient {
+    return new DeedRegistryClient(this.address, runner);
+  }
+
+  // Writes
+
+  registerDeed(
+    input: EncryptedDeedInput,
+  ): Promise<ContractTransactionResponse> {
+    return this.contract.registerDeed(...input.handles, input.inputProof);
+  }
+
+  // Encrypts the plaintext fields for `userAddress` (the signer) and submits them in one call.
+  async encryptAndRegisterDeed(
+    fhevm: FhevmClient,
+    userAddress: string,
+    deed: DeedPlaintext,
+  ): Promise<ContractTransactionResponse> {
+    return this.registerDeed(
+      await encryptDeed(fhevm, this.address, userAddress, deed),
+    );
+  }
+
+  // `recipient` is granted decryption rights on the updated deed. Only the deed's registrar
+  // may name one; the contract reverts with RecipientNotAllowed for anyone else.
+  transferDeed(
+    batchId: bigint | number,
+    deedIndex: bigint | number,
+    input: EncryptedTransferInput,
+    recipient: string = ZeroAddress,
+  ): Promise<ContractTransactionResponse> {
+    return this.contract.transferDeed(
+      batchId,
+      deedIndex,
+      ...input.handles,
+      input.inputProof,
+      recipient,
+    );
+  }
+
+  async encryptAndTransferDeed(
+    fhevm: FhevmClient,
+    userAddress: string,
+    batchId: bigint | number,
+    deedIndex: bigint | number,
+    transfer: DeedTransferPlaintext,
+    recipient?: string,
+  ): Promise<ContractTransactionResponse> {
+    return this.transferDeed(
+      batchId,
+      deedIndex,
+      await encryptDeedTransfer(fhevm, this.address, userAddress, transfer),
+      recipient,
+    );
+  }
+
+  openBatch(): Promise<ContractTransactionResponse> {
+    return this.contract.openBatch();
+  }
+
+  closeBatch(batchId: bigint | number): Promise<ContractTransactionResponse> {
+    return this.contract.closeBatch(batchId);
+  }
+
+  addProvider(provider: string): Promise<ContractTransactionResponse> {
+    return this.contract.addProvider(provider);
+  }
+
+  removeProvider(provider: string): Promise<ContractTransactionResponse> {
+    return this.contract.removeProvider(provider);
+  }
+
+  setPaused(paused: boolean): Promise<ContractTransactionResponse> {
+    return this.contract.setPaused(paused);
+  }
+
+  setCooldownSeconds(
+    seconds: bigint | number,
+  ): Promise<ContractTransactionResponse> {
+    return this.contract.setCooldownSeconds(seconds);
+  }
+
+  transferOwnership(newOwner: string): Promise<ContractTransactionResponse> {
+    return this.contract.transferOwnership(newOwner);
+  }
+
+  requestBatchValueSumDecryption(
+    batchId: bigint | number,
+  ): Promise<ContractTransactionResponse> {
+    return this.contract.requestBatchValueSumDecryption(batchId);
+  }
+
+  // Reads
+
+  async getDeed(
+    batchId: bigint | number,
+    deedIndex: bigint | number,
+  ): Promise<DeedHandles> {
+    const deed = await this.contract.deeds(batchId, deedIndex);
+    return {
+      encryptedOwnerIdentity: deed.encryptedOwnerIdentity,
+      encryptedPropertyId: deed.encryptedPropertyId,
+      encryptedTransactionCount: deed.encryptedTransactionCount,
+      encryptedLastTransactionTimestamp: deed.encryptedLastTransactionTimestamp,
+      encryptedPropertyValue: deed.encryptedPropertyValue,
+    };
+  }
+
+  // Reads up to `limit` deeds of a batch in one call; the contract caps a page at
+  // MAX_DEED_PAGE_SIZE and returns a short page at the end of the batch.
+  async getDeedPage(
+    batchId: bigint | number,
+    offset: number,
+    limit: number,
+  ): Promise<DeedPage> {
+    const [page, registrars, total] = await this.contract.getDeedPage(
+      batchId,
+      offset,
+      limit,
+    );
+    return {
+      batchId: Number(batchId),
+      offset,
+      total: Number(total),
+      deeds: page.map((deed, i) => ({
+        deedIndex: offset + i,
+        registrar: registrars[i],
+        encryptedOwnerIdentity: deed.encryptedOwnerIdentity,
+        encryptedPropertyId: deed.encryptedPropertyId,
+        encryptedTransactionCount: deed.encryptedTransactionCount,
+        encryptedLastTransactionTimestamp:
+          deed.encryptedLastTransactionTimestamp,
+        encryptedPropertyValue: deed.encryptedPropertyValue,
+      })),
+    };
+  }
+
+  getDeedRegistrar(
+    batchId: bigint | number,
+    deedIndex: bigint | number,
+  ): Promise<string> {
+    return this.contract.deedRegistrar(batchId, deedIndex);
+  }
+
+  async getBatch(batchId: bigint | number): Promise<BatchState> {
+    const [closed, propertyCount] = await Promise.all([
+      this.contract.batchClosed(batchId),
+      this.contract.batchPropertyCount(batchId),
+    ]);
+    return { batchId: BigInt(batchId), closed, propertyCount };
+  }
+
+  currentBatchId(): Promise<bigint> {
+    return this.contract.currentBatchId();
+  }
+
+  isProvider(account: string): Promise<boolean> {
+    return this.contract.providers(account);
+  }
+
+  async getSettings(): Promise<RegistrySettings> {
+    const [owner, paused, cooldownSeconds, currentBatchId] = await Promise.all([
+      this.contract.owner(),
+      this.contract.paused(),
+      this.contract.cooldownSeconds(),
+      this.contract.currentBatchId(),
+    ]);
+    return { owner, paused, cooldownSeconds, currentBatchId };
+  }
+
+  async getCooldown(account: string): Promise<CooldownState> {
+    const provider = this.contract.runner?.provider;
+    if (!provider) throw new Error("Registry client has no provider");
+    const [
+      cooldownSeconds,
+      lastSubmissionTime,
+      lastDecryptionRequestTime,
+      latest,
+    ] = await Promise.all([
+      this.contract.cooldownSeconds(),
+      this.contract.lastSubmissionTime(account),
+      this.contract.lastDecryptionRequestTime(account),
+      provider.getBlock("latest"),
+    ]);
+    if (!latest) throw new Error("Latest block not available from provider");
+    return {
+      cooldownSeconds,
+      lastSubmissionTime,
+      lastDecryptionRequestTime,
+      readyAt: lastSubmissionTime + cooldownSeconds,
+      latestBlockTimestamp: BigInt(latest.timestamp),
+    };
+  }
+
+  // Looks up the oracle callback for a request; null while it is still pending.
+  async findDecryptionCompleted(
+    requestId: bigint | number,
+    fromBlock: number,
+  ): Promise<RegistryEvent<"DecryptionCompleted"> | null> {
+    const logs = await this.contract.queryFilter(
+      this.contract.filters.DecryptionCompleted(requestId),
+      fromBlock,
+    );
+    const event = decodeRegistryLogs(logs, this.address).find(
+      (e): e is RegistryEvent<"DecryptionCompleted"> =>
+        e.name === "DecryptionCompleted",
+    );
+    return event ?? null;
+  }
+
+  // Receipt helpers
+
+  async waitForDeedRegistered(
+    tx: ContractTransactionResponse,
+  ): Promise<RegistryEvent<"DeedRegistered">> {
+    return this.requireEvent(await tx.wait(), "DeedRegistered");
+  }
+
+  async waitForDeedTransferred(
+    tx: ContractTransactionResponse,
+  ): Promise<RegistryEvent<"DeedTransferred">> {
+    return this.requireEvent(await tx.wait(), "DeedTransferred");
+  }
+
+  async waitForBatchOpened(
+    tx: ContractTransactionResponse,
+  ): Promise<RegistryEvent<"BatchOpened">> {
+    return this.requireEvent(await tx.wait(), "BatchOpened");
+  }
+
+  async waitForDecryptionRequested(
+    tx: ContractTransactionResponse,
+  ): Promise<RegistryEvent<"DecryptionRequested">> {
+    return this.requireEvent(await tx.wait(), "DecryptionRequested");
+  }
+
+  private requireEvent<N extends RegistryEvent["name"]>(
+    receipt: ContractTransactionReceipt | null,
+    name: N,
+  ): RegistryEvent<N> {
+    if (!receipt) {
+      throw new Error(`Transaction was dropped before ${name} was emitted`);
+    }
+    const event = findRegistryEvent(receipt.logs, name, this.address);
+    if (!event) {
+      throw new Error(`${name} event not found in transaction ${receipt.hash}`);
+    }
+    return event;
+  }
+}
@@ -0,0 +1,184 @@
+// sdk/errors.ts
+import { isError } from "ethers";
+import { DeedRegistryFHE__factory } from "../types/factories/contracts/Deed_Registry_FHE.sol/DeedRegistryFHE__factory";
+import { cooldownRemaining } from "./client";
+import type { DeedRegistryClient } from "./client";
+
+const registryInterface = DeedRegistryFHE__factory.createInterface();
+
+export const REGISTRY_ERRORS = [
+  "NotOwner",
+  "NotProvider",
+  "Paused",
+  "CooldownActive",
+  "BatchClosedOrInvalid",
+  "InvalidBatchId",
+  "ReplayAttempt",
+  "StateMismatch",
+  "InvalidProof",
+  "NotInitialized",
+  "DeedNotFound",
+  "RecipientNotAllowed",
+] as const;
+
+export type RegistryErrorName = (typeof REGISTRY_ERRORS)[number];
+
+export interface DecodedRegistryError {
+  name: RegistryErrorName;
+  selector: string;
+}
+
+// Chain state used to make a message actionable, e.g. how long a cooldown has left.
+// Without it the messages are still specific, just less precise.
+export interface RegistryErrorContext {
+  client?: DeedRegistryClient;
+  // The account that sent (or would have sent) the transaction
+  account?: string;
+}
+
+const isRegistryError = (name: string): name is RegistryErrorName =>
+  (REGISTRY_ERRORS as readonly string[]).includes(name);
+
+// Revert data sits at different depths depending on who produced the error: ethers'
+// CALL_EXCEPTION, a raw JSON-RPC error payload, or a wallet wrapping either of them.
+function findRevertData(error: unknown, depth = 0): string | null {
+  if (depth > 6 || typeof error !== "object" || error === null) return null;
+  const fields = error as Record<string, unknown>;
+  if (
+    typeof fields.data === "string" &&
+    /^0x[0-9a-fA-F]{8}/.test(fields.data)
+  ) {
+    return fields.data;
+  }
+  for (const key of ["data", "error", "info", "cause", "originalError"]) {
+    const found = findRevertData(fields[key], depth + 1);
+    if (found) return found;
+  }
+  return null;
+}
+
+// Matches the revert data of a failed call or transaction against the registry's custom errors.
+export function decodeRegistryError(
+  error: unknown,
+): DecodedRegistryError | null {
+  const data = findRevertData(error);
+  if (!data) return null;
+  const parsed = registryInterface.parseError(data);
+  if (!parsed || !isRegistryError(parsed.name)) return null;
+  return { name: parsed.name, selector: parsed.selector };
+}
+
+export function formatDuration(seconds: number): string {
+  if (seconds < 60) return `${seconds}s`;
+  if (seconds < 3600) {
+    return `${Math.floor(seconds / 60)}m ${seconds % 60}s`;
+  }
+  return `${Math.floor(seconds / 3600)}h ${Math.floor((seconds % 3600) / 60)}m`;
+}
+
+// Seconds until `account` may submit again.
+export async function getCooldownRemaining(
+  client: DeedRegistryClient,
+  account: string,
+): Promise<number> {
+  return cooldownRemaining(await client.getCooldown(account));
+}
+
+async function describeCooldown(context: RegistryErrorContext) {
+  const generic =
+    "The submission cooldown for this account is still running. Wait for it to end and try again.";
+  if (!context.client || !context.account) return generic;
+  try {
+    const remaining = await getCooldownRemaining(
+      context.client,
+      context.account,
+    );
+    return remaining > 0
+      ? `The submission cooldown ends in ${formatDuration(remaining)}. Try again after that.`
+      : "The submission cooldown has just ended. Try again now.";
+  } catch {
+    return generic;
+  }
+}
+
+async function describeNotOwner(context: RegistryErrorContext) {
+  const generic =
+    "Only the registry owner can do this. Switch to the owner account.";
+  if (!context.client) return generic;
+  try {
+    const owner = await context.client.contract.owner();
+    return `Only the registry owner (${owner}) can do this. Switch to that account.`;
+  } catch {
+    return generic;
+  }
+}
+
+async function describeDecoded(
+  name: RegistryErrorName,
+  context: RegistryErrorContext,
+): Promise<string> {
+  switch (name) {
+    case "NotOwner":
+      return describeNotOwner(context);
+    case "NotProvider":
+      return context.account
+        ? `${context.account} is not an approved deed provider. Ask the registry owner to add it.`
+        : "This account is not an approved deed provider. Ask the registry owner to add it.";
+    case "Paused":
+      return "The registry is paused. Writes are disabled until the owner unpauses it.";
+    case "CooldownActive":
+      return describeCooldown(context);
+    case "BatchClosedOrInvalid":
+      return "The batch is closed, or no batch is open. The registry owner has to open a new batch first.";
+    case "InvalidBatchId":
+      return "That batch does not exist, or it is still open. Only existing batches can be closed, and only closed batches can be decrypted.";
+    case "DeedNotFound":
+      return "There is no deed at that batch and index.";
+    case "RecipientNotAllowed":
+      return "Only the deed's registrar can grant a wallet access to it. Leave the recipient empty.";
+    case "ReplayAttempt":
+      return "This decryption request has already been fulfilled.";
+    case "StateMismatch":
+      return "The batch's encrypted values changed after decryption was requested. Submit a new request.";
+    case "InvalidProof":
+      return "The decryption proof does not cover every deed in the batch.";
+    case "NotInitialized":
+      return "An encrypted deed field is uninitialised. The deed was not registered correctly.";
+  }
+}
+
+// Turns any error from a registry write (revert, wallet rejection, RPC failure) into
+// a message that tells the user what happened and what to do about it.
+export async function describeRegistryError(
+  error: unknown,
+  context: RegistryErrorContext = {},
+): Promise<string> {
+  const decoded = decodeRegistryError(error);
+  if (decoded) return describeDecoded(decoded.name, context);
+
+  if (isError(error, "ACTION_REJECTED")) {
+    return "Transaction rejected in the wallet.";
+  }
+  if (isError(error, "INSUFFICIENT_FUNDS")) {
+    return "The account does not have enough ETH to pay for gas.";
+  }
+  if (isError(error, "CALL_EXCEPTION")) {
+    if (error.reason) return `Transaction reverted: ${error.reason}`;
+    const data = findRevertData(error);
+    return data
+      ? `Transaction reverted with an unknown error (${data.substring(0, 10)}).`
+      : "Transaction reverted without a reason.";
+  }
+  const fields = error as { shortMessage?: string; message?: string } | null;
+  return fields?.shortMessage ?? fields?.message ?? String(error);
+}
+
+// For scripts: rethrows with the decoded message, keeping the original as the cause.
+export async function rethrowRegistryError(
+  error: unknown,
+  context: RegistryErrorContext = {},
+): Promise<never> {
+  throw new Error(await describeRegistryError(error, context), {
+    cause: error,
+  });
+}
@@ -0,0 +1,103 @@
+// sdk/events.ts
+import type { Log } from "ethers";
+import { DeedRegistryFHE__factory } from "../types/factories/contracts/Deed_Registry_FHE.sol/DeedRegistryFHE__factory";
+
+const registryInterface = DeedRegistryFHE__factory.createInterface();
+
+export type RegistryEventArgs =
+  | { name: "OwnershipTransferred"; previousOwner: string; newOwner: string }
+  | { name: "ProviderAdded"; provider: string }
+  | { name: "ProviderRemoved"; provider: string }
+  | { name: "ContractPaused"; account: string }
+  | { name: "ContractUnpaused"; account: string }
+  | { name: "CooldownSecondsSet"; oldCooldown: bigint; newCooldown: bigint }
+  | { name: "BatchOpened"; batchId: bigint }
+  | { name: "BatchClosed"; batchId: bigint }
+  | {
+      name: "DeedRegistered";
+      provider: string;
+      batchId: bigint;
+      deedIndex: bigint;
+    }
+  | {
+      name: "DeedTransferred";
+      batchId: bigint;
+      deedIndex: bigint;
+      byRegistrar: boolean;
+    }
+  | {
+      name: "DeedAccessGranted";
+      batchId: bigint;
+      deedIndex: bigint;
+      grantedBy: string;
+    }
+  | { name: "DecryptionRequested"; requestId: bigint; batchId: bigint }
+  | {
+      name: "DecryptionCompleted";
+      requestId: bigint;
+      batchId: bigint;
+      propertyValueSum: bigint;
+    };
+
+export type RegistryEventName = RegistryEventArgs["name"];
+
+export type RegistryEvent<N extends RegistryEventName = RegistryEventName> =
+  Extract<RegistryEventArgs, { name: N }> & {
+    blockNumber: number;
+    transactionHash: string;
+    logIndex: number;
+  };
+
+// Returns null for logs emitted by other contracts or with unknown topics.
+export function decodeRegistryLog(log: Log): RegistryEvent | null {
+  let parsed;
+  try {
+    parsed = registryInterface.parseLog({
+      topics: [...log.topics],
+      data: log.data,
+    });
+  } catch {
+    return null;
+  }
+  if (!parsed) return null;
+
+  const args: Record<string, unknown> = { name: parsed.name };
+  parsed.fragment.inputs.forEach((input, i) => {
+    args[input.name] = parsed.args[i];
+  });
+
+  return {
+    ...(args as RegistryEventArgs),
+    blockNumber: log.blockNumber,
+    transactionHash: log.transactionHash,
+    logIndex: log.index,
+  };
+}
+
+export function decodeRegistryLogs(
+  logs: readonly Log[],
+  registryAddress?: string,
+): RegistryEvent[] {
+  const address = registryAddress?.toLowerCase();
+  const events: RegistryEvent[] = [];
+  for (const log of logs) {
+    if (address && log.address.toLowerCase() !== address) continue;
+    const event = decodeRegistryLog(log);
+    if (event) events.push(event);
+  }
+  return events;
+}
+
+export function findRegistryEvent<N extends RegistryEventName>(
+  logs: readonly Log[],
+  name: N,
+  registryAddress?: string,
+): RegistryEvent<N> | undefined {
+  return decodeRegistryLogs(logs, registryAddress).find(
+    (e): e is RegistryEvent<N> => e.name === name,
+  );
+}
+
+export function registryEventTopic(name: RegistryEventName): string {
+  return registryInterface.getEvent(name)!.topicHash;
+}
@@ -0,0 +1,251 @@
+// sdk/fhe.ts
+import { Contract, hexlify } from "ethers";
+import type { ContractRunner } from "ethers";
+
+// The subset of the relayer SDK instance (web or node) and of hre.fhevm that the client relies on.
+export interface FhevmEncryptedInput {
+  add32(value: number | bigint): FhevmEncryptedInput;
+  encrypt(): Promise<{ handles: Uint8Array[]; inputProof: Uint8Array }>;
+}
+
+export interface FhevmTypedData {
+  domain: {
+    chainId: number;
+    name: string;
+    verifyingContract: string;
+    version: string;
+  };
+  types: { [key: string]: { name: string; type: string }[] };
+  primaryType: string;
+  message: Record<string, unknown>;
+}
+
+export interface FhevmClient {
+  createEncryptedInput(
+    contractAddress: string,
+    userAddress: string,
+  ): FhevmEncryptedInput;
+  generateKeypair(): { publicKey: string; privateKey: string };
+  createEIP712(
+    publicKey: string,
+    contractAddresses: string[],
+    startTimestamp: string | number,
+    durationDays: string | number,
+  ): FhevmTypedData;
+  userDecrypt(
+    handles: { handle: Uint8Array | string; contractAddress: string }[],
+    privateKey: string,
+    publicKey: string,
+    signature: string,
+    contractAddresses: string[],
+    userAddress: string,
+    startTimestamp: string | number,
+    durationDays: string | number,
+  ): Promise<Record<string, bigint | boolean | string>>;
+}
+
+export interface DeedPlaintext {
+  ownerIdentity: number;
+  propertyId: number;
+  transactionCount: number;
+  lastTransactionTimestamp: number;
+  propertyValue: number;
+}
+
+export interface EncryptedDeedInput {
+  handles: [string, string, string, string, string];
+  inputProof: string;
+}
+
+export interface DeedTransferPlaintext {
+  // Proves ownership for non-registrar senders; registrars may pass any value
+  currentOwnerIdentity: number;
+  newOwnerIdentity: number;
+}
+
+export interface EncryptedTransferInput {
+  handles: [string, string];
+  inputProof: string;
+}
+
+export interface UserDecryptionSession {
+  userAddress: string;
+  contractAddresses: string[];
+  publicKey: string;
+  privateKey: string;
+  signature: string;
+  startTimestamp: number;
+  durationDays: number;
+}
+
+export type TypedDataSigner = (typedData: FhevmTypedData) => Promise<string>;
+
+export const UINT32_MAX = 2 ** 32 - 1;
+
+const ACL_ABI = [
+  "function isAllowed(bytes32 handle, address account) view returns (bool)",
+];
+
+export function assertUint32(label: string, value: number) {
+  if (!Number.isInteger(value) || value < 0 || value > UINT32_MAX) {
+    throw new Error(`${label} must be an integer between 0 and ${UINT32_MAX}`);
+  }
+}
+
+// Builds one encrypted input for registerDeed; the handle order matches the contract's parameter order.
+export async function encryptDeed(
+  fhevm: FhevmClient,
+  registryAddress: string,
+  userAddress: string,
+  deed: DeedPlaintext,
+): Promise<EncryptedDeedInput> {
+  assertUint32("Owner identity", deed.ownerIdentity);
+  assertUint32("Property ID", deed.propertyId);
+  assertUint32("Transaction count", deed.transactionCount);
+  assertUint32("Last transaction timestamp", deed.lastTransactionTimestamp);
+  assertUint32("Property value", deed.propertyValue);
+
+  const { handles, inputProof } = await fhevm
+    .createEncryptedInput(registryAddress, userAddress)
+    .add32(deed.ownerIdentity)
+    .add32(deed.propertyId)
+    .add32(deed.transactionCount)
+    .add32(deed.lastTransactionTimestamp)
+    .add32(deed.propertyValue)
+    .encrypt();
+
+  const [
+    owner,
+    propertyId,
+    transactionCount,
+    lastTransactionTimestamp,
+    propertyValue,
+  ] = handles.map((h) => hexlify(h));
+  return {
+    handles: [
+      owner,
+      propertyId,
+      transactionCount,
+      lastTransactionTimestamp,
+      propertyValue,
+    ],
+    inputProof: hexlify(inputProof),
+  };
+}
+
+// Builds one encrypted input for transferDeed: the claimed current owner, then the new owner.
+export async function encryptDeedTransfer(
+  fhevm: FhevmClient,
+  registryAddress: string,
+  userAddress: string,
+  transfer: DeedTransferPlaintext,
+): Promise<EncryptedTransferInput> {
+  assertUint32("Current owner identity", transfer.currentOwnerIdentity);
+  assertUint32("New owner identity", transfer.newOwnerIdentity);
+
+  const { handles, inputProof } = await fhevm
+    .createEncryptedInput(registryAddress, userAddress)
+    .add32(transfer.currentOwnerIdentity)
+    .add32(transfer.newOwnerIdentity)
+    .encrypt();
+
+  const [currentOwner, newOwner] = handles.map((h) => hexlify(h));
+  return {
+    handles: [currentOwner, newOwner],
+    inputProof: hexlify(inputProof),
+  };
+}
+
+// Generates a fresh keypair and has the wallet sign the EIP-712 request the relayer verifies.
+export async function createUserDecryptionSession(
+  fhevm: FhevmClient,
+  userAddress: string,
+  contractAddresses: string[],
+  startTimestamp: number,
+  durationDays: number,
+  signTypedData: TypedDataSigner,
+): Promise<UserDecryptionSession> {
+  const { publicKey, privateKey } = fhevm.generateKeypair();
+  const typedData = fhevm.createEIP712(
+    publicKey,
+    contractAddresses,
+    startTimestamp,
+    durationDays,
+  );
+  const signature = await signTypedData(typedData);
+  return {
+    userAddress,
+    contractAddresses,
+    publicKey,
+    privateKey,
+    signature,
+    startTimestamp,
+    durationDays,
+  };
+}
+
+export function isSessionValid(
+  session: UserDecryptionSession | null | undefined,
+  userAddress: string,
+  contractAddress: string,
+): session is UserDecryptionSession {
+  if (!session) return false;
+  const expiresAt =
+    session.startTimestamp + session.durationDays * 24 * 60 * 60;
+  return (
+    session.userAddress.toLowerCase() === userAddress.toLowerCase() &&
+    session.contractAddresses.some(
+      (a) => a.toLowerCase() === contractAddress.toLowerCase(),
+    ) &&
+    Math.floor(Date.now() / 1000) < expiresAt
+  );
+}
+
+// Mirrors the relayer's own ACL check so callers get a clear error before any signature request.
+export async function assertDecryptionAllowed(
+  runner: ContractRunner,
+  aclAddress: string,
+  handle: string,
+  contractAddress: string,
+  userAddress: string,
+) {
+  const acl = new Contract(aclAddress, ACL_ABI, runner);
+  const [userAllowed, contractAllowed] = await Promise.all([
+    acl.isAllowed(handle, userAddress) as Promise<boolean>,
+    acl.isAllowed(handle, contractAddress) as Promise<boolean>,
+  ]);
+  if (!contractAllowed) {
+    throw new Error("This ciphertext is not held by the registry contract");
+  }
+  if (!userAllowed) {
+    throw new Error("Your address is not authorised to decrypt this deed");
+  }
+}
+
+export async function userDecryptHandles(
+  fhevm: FhevmClient,
+  handles: string[],
+  contractAddress: string,
+  session: UserDecryptionSession,
+): Promise<Record<string, bigint>> {
+  const results = await fhevm.userDecrypt(
+    handles.map((handle) => ({ handle, contractAddress })),
+    session.privateKey,
+    session.publicKey,
+    session.signature.replace("0x", ""),
+    session.contractAddresses,
+    session.userAddress,
+    session.startTimestamp,
+    session.durationDays,
+  );
+
+  const values: Record<string, bigint> = {};
+  for (const handle of handles) {
+    const value = results[handle];
+    if (typeof value !== "bigint") {
+      throw new Error(`Relayer returned no cleartext for handle ${handle}`);
+    }
+    values[handle] = value;
+  }
+  return values;
+}
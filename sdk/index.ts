@@ -0,0 +1,66 @@
+// sdk/index.ts
+// Typed client for DeedRegistryFHE shared by the web app and Hardhat scripts.
+// It has no dependency on a specific relayer entry point: pass the web or node
+// relayer instance, or hre.fhevm, wherever an FhevmClient is expected.
+export { DeedRegistryClient, cooldownRemaining } from "./client";
+export type {
+  BatchState,
+  CooldownState,
+  DeedHandles,
+  DeedPage,
+  PagedDeed,
+  RegistrySettings,
+} from "./client";
+export {
+  decodeRegistryLog,
+  decodeRegistryLogs,
+  findRegistryEvent,
+  registryEventTopic,
+} from "./events";
+export type {
+  RegistryEvent,
+  RegistryEventArgs,
+  RegistryEventName,
+} from "./events";
+export {
+  DEFAULT_LOG_PAGE_SIZE,
+  getBlockTimestamps,
+  loadProviderSet,
+  queryRegistryEvents,
+} from "./sync";
+export type { EventQueryOptions } from "./sync";
+export {
+  UINT32_MAX,
+  assertDecryptionAllowed,
+  assertUint32,
+  createUserDecryptionSession,
+  encryptDeed,
+  encryptDeedTransfer,
+  isSessionValid,
+  userDecryptHandles,
+} from "./fhe";
+export type {
+  DeedPlaintext,
+  DeedTransferPlaintext,
+  EncryptedDeedInput,
+  EncryptedTransferInput,
+  FhevmClient,
+  FhevmEncryptedInput,
+  FhevmTypedData,
+  TypedDataSigner,
+  UserDecryptionSession,
+} from "./fhe";
+export {
+  REGISTRY_ERRORS,
+  decodeRegistryError,
+  describeRegistryError,
+  formatDuration,
+  getCooldownRemaining,
+  rethrowRegistryError,
+} from "./errors";
+export type {
+  DecodedRegistryError,
+  RegistryErrorContext,
+  RegistryErrorName,
+} from "./errors";
+export type { DeedRegistryFHE } from "../types/contracts/Deed_Registry_FHE.sol/DeedRegistryFHE";
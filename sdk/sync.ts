@@ -0,0 +1,92 @@
+// sdk/sync.ts
+import type { BaseContract, Provider } from "ethers";
+import type { DeedRegistryClient } from "./client";
+import { decodeRegistryLogs, registryEventTopic } from "./events";
+import type { RegistryEvent, RegistryEventName } from "./events";
+
+export const DEFAULT_LOG_PAGE_SIZE = 5000;
+
+export interface EventQueryOptions {
+  fromBlock: number;
+  toBlock?: number;
+  pageSize?: number;
+  onPage?: (page: {
+    fromBlock: number;
+    toBlock: number;
+    events: RegistryEvent[];
+  }) => void;
+}
+
+function requireProvider(client: DeedRegistryClient): Provider {
+  const provider = client.contract.runner?.provider;
+  if (!provider) {
+    throw new Error("Registry client is not connected to a provider");
+  }
+  return provider;
+}
+
+// Queries the given events over [fromBlock, toBlock] in fixed-size block ranges so that
+// public RPC endpoints with log-range limits can serve the whole history.
+export async function queryRegistryEvents(
+  client: DeedRegistryClient,
+  names: RegistryEventName[],
+  options: EventQueryOptions,
+): Promise<{ events: RegistryEvent[]; toBlock: number }> {
+  const pageSize = options.pageSize ?? DEFAULT_LOG_PAGE_SIZE;
+  const toBlock =
+    options.toBlock ?? (await requireProvider(client).getBlockNumber());
+  const topics = [names.map((name) => registryEventTopic(name))];
+  // The typed binding only accepts single-event filters; OR-ing topics needs the base signature.
+  const contract: BaseContract = client.contract;
+
+  const events: RegistryEvent[] = [];
+  for (let start = options.fromBlock; start <= toBlock; start += pageSize) {
+    const end = Math.min(start + pageSize - 1, toBlock);
+    const logs = await contract.queryFilter(topics, start, end);
+    const page = decodeRegistryLogs(logs, client.address);
+    events.push(...page);
+    options.onPage?.({ fromBlock: start, toBlock: end, events: page });
+  }
+
+  events.sort(
+    (a, b) => a.blockNumber - b.blockNumber || a.logIndex - b.logIndex,
+  );
+  return { events, toBlock };
+}
+
+// Replays ProviderAdded/ProviderRemoved to rebuild the current provider set,
+// since the contract only exposes a per-address lookup.
+export async function loadProviderSet(
+  client: DeedRegistryClient,
+  fromBlock: number,
+): Promise<string[]> {
+  const { events } = await queryRegistryEvents(
+    client,
+    ["ProviderAdded", "ProviderRemoved"],
+    { fromBlock },
+  );
+  const providers = new Map<string, string>();
+  for (const event of events) {
+    if (event.name === "ProviderAdded") {
+      providers.set(event.provider.toLowerCase(), event.provider);
+    } else if (event.name === "ProviderRemoved") {
+      providers.delete(event.provider.toLowerCase());
+    }
+  }
+  return [...providers.values()].sort();
+}
+
+export async function getBlockTimestamps(
+  provider: Provider,
+  blockNumbers: Iterable<number>,
+): Promise<Map<number, number>> {
+  const timestamps = new Map<number, number>();
+  for (const blockNumber of new Set(blockNumbers)) {
+    const block = await provider.getBlock(blockNumber);
+    if (!block) {
+      throw new Error(`Block ${blockNumber} not found`);
+    }
+    timestamps.set(blockNumber, block.timestamp);
+  }
+  return timestamps;
+}
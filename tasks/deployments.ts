@@ -0,0 +1,316 @@
+import fs from "fs";
+import path from "path";
+import { getAddress, keccak256, toUtf8Bytes } from "ethers";
+import { subtask, task } from "hardhat/config";
+import type {
+  HardhatRuntimeEnvironment,
+  SolcConfig,
+  TaskArguments,
+} from "hardhat/types";
+import { TASK_DEPLOY_RUN_DEPLOY } from "hardhat-deploy";
+
+const FRONTEND_CONFIG = path.join("frontend", "web", "src", "config.json");
+
+// One record per contract deployment on a network, oldest first. hardhat-deploy keeps only
+// the latest deployment of each contract in deployments/<network>/.
+interface DeploymentRecord {
+  contract: string;
+  address: string;
+  transactionHash: string;
+  blockNumber: number;
+  timestamp: number;
+  deployer: string;
+  // The compiler configured in hardhat.config.ts for the contract's source at deploy time
+  compiler: {
+    version: string;
+    settings: Record<string, unknown>;
+  };
+  abiHash: string;
+}
+
+interface DeploymentHistory {
+  network: string;
+  chainId: number;
+  deployments: DeploymentRecord[];
+}
+
+// Mirrors DeploymentConfig in frontend/web/src/networks.ts
+interface FrontendDeployment {
+  registryAddress: string;
+  registryDeployBlock: number;
+  adapterAddress: string;
+  deployer: string;
+}
+
+interface FrontendConfig {
+  defaultChainId: number;
+  networks: Record<string, FrontendDeployment>;
+}
+
+/**
+ * Points the web app at this network's deployments by rewriting its entry in
+ * frontend/web/src/config.json. Other chains' entries are left as they are.
+ */
+export async function writeFrontendConfig(
+  hre: HardhatRuntimeEnvironment,
+): Promise<void> {
+  const registry = await hre.deployments.getOrNull("DeedRegistryFHE");
+  const adapter = await hre.deployments.getOrNull("UniversalAdapter");
+  if (!registry) {
+    console.warn(
+      `No DeedRegistryFHE deployment on ${hre.network.name}; frontend config left unchanged`,
+    );
+    return;
+  }
+
+  const chainId = await hre.getChainId();
+  const file = path.join(hre.config.paths.root, FRONTEND_CONFIG);
+  const config = JSON.parse(fs.readFileSync(file, "utf8")) as FrontendConfig;
+  const previous = config.networks[chainId];
+  config.networks[chainId] = {
+    registryAddress: registry.address,
+    // The app syncs registry events from this block
+    registryDeployBlock:
+      registry.receipt?.blockNumber ?? previous?.registryDeployBlock ?? 0,
+    adapterAddress: adapter?.address ?? previous?.adapterAddress ?? "",
+    deployer: registry.receipt?.from ?? previous?.deployer ?? "",
+  };
+  fs.writeFileSync(file, JSON.stringify(config, null, 2) + "\n");
+  console.log(`Wrote ${FRONTEND_CONFIG} for chain ${chainId}`);
+}
+
+function historyPath(hre: HardhatRuntimeEnvironment, network: string): string {
+  return path.join(hre.config.paths.deployments, `${network}.json`);
+}
+
+export function readDeploymentHistory(
+  hre: HardhatRuntimeEnvironment,
+  network: string = hre.network.name,
+): DeploymentHistory | undefined {
+  const file = historyPath(hre, network);
+  return fs.existsSync(file)
+    ? (JSON.parse(fs.readFileSync(file, "utf8")) as DeploymentHistory)
+    : undefined;
+}
+
+// keccak256 of the ABI's JSON, so a record can be matched against a later build's ABI
+function abiHash(abi: unknown[]): string {
+  return keccak256(toUtf8Bytes(JSON.stringify(abi)));
+}
+
+function compilerFor(
+  hre: HardhatRuntimeEnvironment,
+  sourceName: string,
+): SolcConfig {
+  const { compilers, overrides } = hre.config.solidity;
+  return overrides[sourceName] ?? compilers[0];
+}
+
+/**
+ * Appends the network's new deployments to deployments/<network>.json. A contract
+ * that hardhat-deploy reused rather than redeployed already has its record and is skipped.
+ */
+export async function recordDeploymentHistory(
+  hre: HardhatRuntimeEnvironment,
+  network: string = hre.network.name,
+): Promise<void> {
+  const history: DeploymentHistory = readDeploymentHistory(hre, network) ?? {
+    network,
+    chainId: Number(await hre.getChainId()),
+    deployments: [],
+  };
+  const added: string[] = [];
+  for (const [name, deployment] of Object.entries(
+    await hre.deployments.all(),
+  )) {
+    const transactionHash =
+      deployment.receipt?.transactionHash ?? deployment.transactionHash;
+    if (
+      !transactionHash ||
+      history.deployments.some((r) => r.transactionHash === transactionHash)
+    ) {
+      continue;
+    }
+    const receipt =
+      deployment.receipt ??
+      (await hre.ethers.provider.getTransactionReceipt(transactionHash));
+    if (!receipt) {
+      console.warn(`No receipt for ${name} (${transactionHash}); not recorded`);
+      continue;
+    }
+    const block = await hre.ethers.provider.getBlock(receipt.blockNumber);
+    const { sourceName } = await hre.artifacts.readArtifact(name);
+    const { version, settings } = compilerFor(hre, sourceName);
+    // outputSelection is added by hardhat and says nothing about the bytecode
+    const compilerSettings = { ...settings };
+    delete compilerSettings.outputSelection;
+    history.deployments.push({
+      contract: name,
+      address: getAddress(deployment.address),
+      transactionHash,
+      blockNumber: receipt.blockNumber,
+      timestamp: block?.timestamp ?? 0,
+      deployer: getAddress(receipt.from),
+      compiler: { version, settings: compilerSettings },
+      abiHash: abiHash(deployment.abi),
+    });
+    added.push(name);
+  }
+  if (added.length === 0) {
+    return;
+  }
+
+  const file = historyPath(hre, network);
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  const temporary = `${file}.tmp`;
+  fs.writeFileSync(temporary, JSON.stringify(history, null, 2) + "\n");
+  fs.renameSync(temporary, file);
+  console.log(
+    `Recorded ${added.join(", ")} in ${path.relative(hre.config.paths.root, file)}`,
+  );
+}
+
+// Runs after every `hardhat deploy`, and after the deployment `hardhat node` makes on start.
+// Deploys that hardhat-deploy does not write to disk, such as one against the in-process
+// hardhat network that ends with the command, leave the history and frontend config alone
+// too. The deployment `hardhat node` makes runs on the hardhat network but is saved under
+// deployments/localhost/, where later commands against the node look for it.
+subtask(TASK_DEPLOY_RUN_DEPLOY).setAction(async function (
+  taskArguments: TaskArguments,
+  hre,
+  runSuper,
+) {
+  await runSuper(taskArguments);
+  if (taskArguments.write) {
+    await recordDeploymentHistory(
+      hre,
+      hre.network.name === "hardhat" ? "localhost" : hre.network.name,
+    );
+    await writeFrontendConfig(hre);
+  }
+});
+
+// Zeroes the ranges solc fills in at construction (immutables), which differ per deployment
+function maskImmutables(
+  code: string,
+  references: Record<string, Array<{ start: number; length: number }>>,
+): string {
+  let hex = code.replace(/^0x/, "").toLowerCase();
+  for (const ranges of Object.values(references)) {
+    for (const { start, length } of ranges) {
+      hex =
+        hex.slice(0, start * 2) +
+        "0".repeat(length * 2) +
+        hex.slice((start + length) * 2);
+    }
+  }
+  return `0x${hex}`;
+}
+
+/**
+ * Compares the runtime bytecode at each deployed address with the deployedBytecode of the
+ * current artifacts/ build, so a live contract can be shown to run this tree's sources
+ * compiled with this tree's settings. Fails if any contract differs.
+ *
+ * Examples:
+ *   - npx hardhat --network sepolia task:verify-bytecode
+ *   - npx hardhat --network sepolia task:verify-bytecode --contract DeedRegistryFHE --address 0x...
+ */
+task(
+  "task:verify-bytecode",
+  "Checks deployed runtime bytecode against the current artifacts/ build",
+)
+  .addOptionalParam(
+    "contract",
+    "Contract to check (default: every deployment on the network)",
+  )
+  .addOptionalParam(
+    "address",
+    "Address to check instead of the recorded deployment; requires --contract",
+  )
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    if (taskArguments.address && !taskArguments.contract) {
+      throw new Error("--address requires --contract");
+    }
+    const targets: Array<{ contract: string; address: string }> = [];
+    if (taskArguments.address) {
+      targets.push({
+        contract: taskArguments.contract,
+        address: getAddress(taskArguments.address),
+      });
+    } else {
+      const all = await hre.deployments.all();
+      for (const [contract, deployment] of Object.entries(all)) {
+        if (!taskArguments.contract || taskArguments.contract === contract) {
+          targets.push({ contract, address: deployment.address });
+        }
+      }
+      if (targets.length === 0) {
+        throw new Error(
+          `No ${taskArguments.contract ?? "contract"} deployment on ${hre.network.name}`,
+        );
+      }
+    }
+
+    const history = readDeploymentHistory(hre);
+    const failures: string[] = [];
+    for (const { contract, address } of targets) {
+      const artifact = await hre.artifacts.readArtifact(contract);
+      const fullyQualifiedName = `${artifact.sourceName}:${artifact.contractName}`;
+      const buildInfo = await hre.artifacts.getBuildInfo(fullyQualifiedName);
+      if (!buildInfo) {
+        throw new Error(
+          `No build info for ${fullyQualifiedName}; run npx hardhat compile`,
+        );
+      }
+      const compiled =
+        buildInfo.output.contracts[artifact.sourceName][artifact.contractName]
+          .evm.deployedBytecode;
+      const references = compiled.immutableReferences ?? {};
+      const expected = maskImmutables(artifact.deployedBytecode, references);
+      const onChain = await hre.ethers.provider.getCode(address);
+
+      console.log(`${contract} at ${address}`);
+      console.log(
+        `  build:    solc ${buildInfo.solcVersion}, runtime code ${keccak256(expected)}`,
+      );
+      if (onChain === "0x") {
+        console.log("  on chain: no code");
+        failures.push(contract);
+        continue;
+      }
+      const deployed = maskImmutables(onChain, references);
+      console.log(`  on chain: runtime code ${keccak256(deployed)}`);
+
+      const record = history?.deployments
+        .filter(
+          (r) =>
+            r.contract === contract &&
+            r.address.toLowerCase() === address.toLowerCase(),
+        )
+        .pop();
+      if (record) {
+        console.log(
+          `  recorded: block ${record.blockNumber}, tx ${record.transactionHash}, solc ${record.compiler.version}`,
+        );
+        if (record.abiHash !== abiHash(artifact.abi)) {
+          console.log(
+            "  the ABI has changed since this deployment was recorded",
+          );
+        }
+      }
+      if (deployed === expected) {
+        console.log("  MATCH");
+      } else {
+        console.log(
+          "  MISMATCH: the deployed code was not built from this tree",
+        );
+        failures.push(contract);
+      }
+    }
+    if (failures.length > 0) {
+      throw new Error(
+        `Deployed bytecode differs from the current build for ${failures.join(", ")}`,
+      );
+    }
+  });
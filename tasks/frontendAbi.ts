@@ -0,0 +1,123 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { task } from "hardhat/config";
+import { TASK_COMPILE } from "hardhat/builtin-tasks/task-names";
+import type { HardhatRuntimeEnvironment, TaskArguments } from "hardhat/types";
+import { runTypeChain } from "typechain";
+
+// Generated from artifacts/ on every compile; files not produced by the export are removed
+const FRONTEND_ABI_DIR = path.join("frontend", "web", "src", "abi");
+// Contracts the web app talks to, directly or through sdk/
+const FRONTEND_CONTRACTS = ["DeedRegistryFHE", "UniversalAdapter"];
+
+function listFiles(dir: string, prefix = ""): string[] {
+  if (!fs.existsSync(dir)) {
+    return [];
+  }
+  return fs
+    .readdirSync(dir, { withFileTypes: true })
+    .flatMap((entry) =>
+      entry.isDirectory()
+        ? listFiles(path.join(dir, entry.name), path.join(prefix, entry.name))
+        : [path.join(prefix, entry.name)],
+    );
+}
+
+// Writes each contract's ABI and its ethers-v6 typings (under types/) to a scratch
+// directory, laid out as frontend/web/src/abi should be
+async function buildFrontendAbi(
+  hre: HardhatRuntimeEnvironment,
+): Promise<string> {
+  const staging = fs.mkdtempSync(path.join(os.tmpdir(), "frontend-abi-"));
+  const abiFiles: string[] = [];
+  for (const name of FRONTEND_CONTRACTS) {
+    // Throws if the contract has not been compiled, rather than leaving a stale copy
+    const { contractName, sourceName, abi } =
+      await hre.artifacts.readArtifact(name);
+    const file = path.join(staging, `${contractName}.json`);
+    fs.writeFileSync(
+      file,
+      JSON.stringify({ contractName, sourceName, abi }, null, 2) + "\n",
+    );
+    abiFiles.push(file);
+  }
+  await runTypeChain({
+    cwd: staging,
+    filesToProcess: abiFiles,
+    allFiles: abiFiles,
+    outDir: path.join(staging, "types"),
+    target: "ethers-v6",
+  });
+  return staging;
+}
+
+// Files that differ between the frontend copy and a fresh export, or exist in only one
+function diffFrontendAbi(staging: string, target: string): string[] {
+  const expected = listFiles(staging);
+  const actual = new Set(listFiles(target));
+  const drifted = expected.filter(
+    (file) =>
+      !actual.has(file) ||
+      !fs
+        .readFileSync(path.join(staging, file))
+        .equals(fs.readFileSync(path.join(target, file))),
+  );
+  const stale = [...actual].filter((file) => !expected.includes(file));
+  return [...drifted, ...stale].sort();
+}
+
+/**
+ * Exports the ABIs of FRONTEND_CONTRACTS to frontend/web/src/abi with generated typings.
+ * With `check`, nothing is written and the export fails if the frontend copy has drifted
+ * from artifacts/.
+ */
+export async function exportFrontendAbi(
+  hre: HardhatRuntimeEnvironment,
+  { check = false }: { check?: boolean } = {},
+): Promise<void> {
+  const target = path.join(hre.config.paths.root, FRONTEND_ABI_DIR);
+  const staging = await buildFrontendAbi(hre);
+  try {
+    const changed = diffFrontendAbi(staging, target);
+    if (changed.length === 0) {
+      return;
+    }
+    if (check) {
+      throw new Error(
+        `${FRONTEND_ABI_DIR} has drifted from artifacts/ in ${changed.join(", ")}; run npx hardhat compile and commit the result`,
+      );
+    }
+    fs.rmSync(target, { recursive: true, force: true });
+    fs.cpSync(staging, target, { recursive: true });
+    console.log(`Updated ${FRONTEND_ABI_DIR}: ${changed.join(", ")}`);
+  } finally {
+    fs.rmSync(staging, { recursive: true, force: true });
+  }
+}
+
+// Every compile, including the ones `hardhat deploy`, `node` and `test` start, brings the
+// frontend's ABIs and typings up to date with the artifacts it produced
+task(TASK_COMPILE)
+  .addFlag("noFrontendAbi", "Skip exporting ABIs and typings to the frontend")
+  .setAction(async function (taskArguments: TaskArguments, hre, runSuper) {
+    const result = await runSuper(taskArguments);
+    if (!taskArguments.noFrontendAbi) {
+      await exportFrontendAbi(hre);
+    }
+    return result;
+  });
+
+/**
+ * Fails if frontend/web/src/abi does not match the current artifacts/, for CI.
+ * Example:
+ *   - npx hardhat task:check-frontend-abi
+ */
+task(
+  "task:check-frontend-abi",
+  "Checks that the frontend's ABIs and typings match artifacts/",
+).setAction(async function (_, hre) {
+  await hre.run(TASK_COMPILE, { quiet: true, noFrontendAbi: true });
+  await exportFrontendAbi(hre, { check: true });
+  console.log(`${FRONTEND_ABI_DIR} matches artifacts/`);
+});
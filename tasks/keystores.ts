@@ -0,0 +1,309 @@
+import fs from "fs";
+import path from "path";
+import {
+  BrowserProvider,
+  Wallet,
+  getAddress,
+  getBytes,
+  type TransactionRequest,
+  type TypedDataField,
+} from "ethers";
+import { extendProvider, task } from "hardhat/config";
+import { ProviderWrapper } from "hardhat/plugins";
+import type {
+  EIP1193Provider,
+  RequestArguments,
+  TaskArguments,
+} from "hardhat/types";
+
+// Encrypted JSON keystores (the format of ethers' Wallet.encrypt) live here, relative to
+// the project root, by name
+const KEYSTORE_DIR = "keystores";
+// Keystore that signs on live networks: a name in KEYSTORE_DIR or a path to a .json file
+const KEYSTORE_ENV = "KEYSTORE";
+// Passphrases are taken from these variables when set, and prompted for otherwise
+const PASSWORD_ENV = "KEYSTORE_PASSWORD";
+const NEW_PASSWORD_ENV = "KEYSTORE_NEW_PASSWORD";
+
+const MIN_PASSWORD_LENGTH = 12;
+
+export function keystorePath(root: string, nameOrPath: string): string {
+  return nameOrPath.endsWith(".json") || nameOrPath.includes(path.sep)
+    ? path.resolve(nameOrPath)
+    : path.join(root, KEYSTORE_DIR, `${nameOrPath}.json`);
+}
+
+// The address is stored in the clear, so keystores can be listed without a passphrase
+function keystoreAddress(file: string): string {
+  const { address } = JSON.parse(fs.readFileSync(file, "utf8"));
+  if (typeof address !== "string") {
+    throw new Error(`${file} is not an encrypted JSON keystore`);
+  }
+  return getAddress(address.startsWith("0x") ? address : `0x${address}`);
+}
+
+// Reads a line from the terminal without echoing it
+function promptHidden(question: string): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const stdin = process.stdin;
+    if (!stdin.isTTY) {
+      reject(
+        new Error(`No terminal to prompt on; set ${PASSWORD_ENV} instead`),
+      );
+      return;
+    }
+    let value = "";
+    const finish = () => {
+      stdin.off("data", onData);
+      stdin.setRawMode(false);
+      stdin.pause();
+      process.stdout.write("\n");
+    };
+    const onData = (chunk: string) => {
+      for (const char of chunk) {
+        if (char === "\r" || char === "\n") {
+          finish();
+          resolve(value);
+          return;
+        }
+        if (char === "\u0003") {
+          finish();
+          reject(new Error("Cancelled"));
+          return;
+        }
+        value =
+          char === "\u007f" || char === "\b"
+            ? value.slice(0, -1)
+            : value + char;
+      }
+    };
+    process.stdout.write(question);
+    stdin.setRawMode(true);
+    stdin.setEncoding("utf8");
+    stdin.on("data", onData);
+    stdin.resume();
+  });
+}
+
+async function currentPassword(file: string): Promise<string> {
+  return (
+    process.env[PASSWORD_ENV] ??
+    (await promptHidden(`Passphrase for ${path.basename(file)}: `))
+  );
+}
+
+async function newPassword(envName: string): Promise<string> {
+  const fromEnv = process.env[envName];
+  const password = fromEnv ?? (await promptHidden("New keystore passphrase: "));
+  if (password.length < MIN_PASSWORD_LENGTH) {
+    throw new Error(
+      `Keystore passphrases must be at least ${MIN_PASSWORD_LENGTH} characters`,
+    );
+  }
+  if (
+    fromEnv === undefined &&
+    (await promptHidden("Repeat the passphrase: ")) !== password
+  ) {
+    throw new Error("Passphrases do not match");
+  }
+  return password;
+}
+
+export async function loadKeystore(file: string): Promise<Wallet> {
+  if (!fs.existsSync(file)) {
+    throw new Error(`Keystore ${file} does not exist`);
+  }
+  const json = fs.readFileSync(file, "utf8");
+  const password = await currentPassword(file);
+  try {
+    const wallet = await Wallet.fromEncryptedJson(json, password);
+    return new Wallet(wallet.privateKey);
+  } catch (e: any) {
+    if (e?.shortMessage === "incorrect password") {
+      throw new Error(`Wrong passphrase for ${file}`);
+    }
+    throw e;
+  }
+}
+
+// Writes through a temporary file so an interrupted write never leaves a truncated
+// keystore. Only the encrypted JSON is written; the key stays in memory.
+async function saveKeystore(
+  file: string,
+  wallet: Wallet,
+  password: string,
+): Promise<void> {
+  const json = await wallet.encrypt(password);
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  const temporary = `${file}.tmp`;
+  fs.writeFileSync(temporary, json, { mode: 0o600 });
+  fs.renameSync(temporary, file);
+}
+
+// JSON-RPC transaction fields as eth_sendTransaction receives them, all hex-encoded
+interface RpcTransaction {
+  from?: string;
+  to?: string;
+  gas?: string;
+  gasPrice?: string;
+  maxFeePerGas?: string;
+  maxPriorityFeePerGas?: string;
+  value?: string;
+  data?: string;
+  nonce?: string;
+  type?: string;
+  chainId?: string;
+}
+
+function toTransactionRequest(tx: RpcTransaction): TransactionRequest {
+  return {
+    to: tx.to,
+    gasLimit: tx.gas,
+    gasPrice: tx.gasPrice,
+    maxFeePerGas: tx.maxFeePerGas,
+    maxPriorityFeePerGas: tx.maxPriorityFeePerGas,
+    value: tx.value,
+    data: tx.data,
+    nonce: tx.nonce === undefined ? undefined : Number(tx.nonce),
+    type: tx.type === undefined ? undefined : Number(tx.type),
+    chainId: tx.chainId,
+  };
+}
+
+// Answers account and signing requests with one keystore's wallet, the way Hardhat does for
+// `accounts` in the network config, and forwards everything else. Transactions are filled
+// in (nonce, gas, fees) by ethers and sent raw.
+class KeystoreProvider extends ProviderWrapper {
+  readonly #wallet: Wallet;
+
+  constructor(provider: EIP1193Provider, wallet: Wallet) {
+    super(provider);
+    // Without the cache, back-to-back transactions each read a fresh nonce
+    this.#wallet = wallet.connect(
+      new BrowserProvider(provider, undefined, { cacheTimeout: -1 }),
+    );
+  }
+
+  #checkAccount(address: string | undefined): void {
+    if (address === undefined || getAddress(address) !== this.#wallet.address) {
+      throw new Error(
+        `${address} is not the keystore's account ${this.#wallet.address}`,
+      );
+    }
+  }
+
+  public async request(args: RequestArguments): Promise<unknown> {
+    const params = this._getParams(args);
+    switch (args.method) {
+      case "eth_accounts":
+      case "eth_requestAccounts":
+        return [this.#wallet.address];
+      case "eth_sign": {
+        const [address, data] = params;
+        this.#checkAccount(address);
+        return this.#wallet.signMessage(getBytes(data));
+      }
+      case "personal_sign": {
+        const [data, address] = params;
+        this.#checkAccount(address);
+        return this.#wallet.signMessage(getBytes(data));
+      }
+      case "eth_signTypedData_v4": {
+        const [address, data] = params;
+        this.#checkAccount(address);
+        const { domain, types, message } =
+          typeof data === "string" ? JSON.parse(data) : data;
+        // ethers derives the domain type itself and rejects it among the types
+        const { EIP712Domain: _, ...messageTypes } = types as Record<
+          string,
+          TypedDataField[]
+        >;
+        return this.#wallet.signTypedData(domain, messageTypes, message);
+      }
+      case "eth_sendTransaction": {
+        const [tx] = params as RpcTransaction[];
+        this.#checkAccount(tx?.from);
+        const signed = await this.#wallet.signTransaction(
+          await this.#wallet.populateTransaction(toTransactionRequest(tx)),
+        );
+        return this._wrappedProvider.request({
+          method: "eth_sendRawTransaction",
+          params: [signed],
+        });
+      }
+      default:
+        return this._wrappedProvider.request(args);
+    }
+  }
+}
+
+// With KEYSTORE set, transactions and signatures on live (HTTP) networks are made with
+// the decrypted keystore. The in-process hardhat network keeps its own funded accounts.
+extendProvider(async (provider, config, network) => {
+  const keystore = process.env[KEYSTORE_ENV];
+  if (!keystore || !("url" in config.networks[network])) {
+    return provider;
+  }
+  const wallet = await loadKeystore(keystorePath(config.paths.root, keystore));
+  console.log(`Signing on ${network} as ${wallet.address} (${keystore})`);
+  return new KeystoreProvider(provider, wallet);
+});
+
+/**
+ * Examples:
+ *   - npx hardhat task:keystore-create --name deployer
+ *   - npx hardhat task:keystore-create --name clerk --import
+ */
+task("task:keystore-create", "Creates an encrypted JSON keystore")
+  .addParam("name", "Keystore name, or a path ending in .json")
+  .addFlag(
+    "import",
+    "Encrypt an existing private key, entered at a hidden prompt, instead of a new one",
+  )
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const file = keystorePath(hre.config.paths.root, taskArguments.name);
+    if (fs.existsSync(file)) {
+      throw new Error(`${file} already exists; rotate it instead`);
+    }
+    const wallet = taskArguments.import
+      ? new Wallet((await promptHidden("Private key: ")).trim())
+      : new Wallet(Wallet.createRandom().privateKey);
+    await saveKeystore(file, wallet, await newPassword(PASSWORD_ENV));
+    console.log(`Created ${file} for ${wallet.address}`);
+  });
+
+/**
+ * Example:
+ *   - npx hardhat task:keystore-list
+ */
+task("task:keystore-list", "Lists keystores and their addresses").setAction(
+  async function (_, hre) {
+    const dir = path.join(hre.config.paths.root, KEYSTORE_DIR);
+    const files = fs.existsSync(dir)
+      ? fs.readdirSync(dir).filter((f) => f.endsWith(".json"))
+      : [];
+    if (files.length === 0) {
+      console.log(`No keystores in ${dir}`);
+      return;
+    }
+    for (const file of files.sort()) {
+      console.log(
+        `${path.basename(file, ".json").padEnd(20)} ${keystoreAddress(path.join(dir, file))}`,
+      );
+    }
+  },
+);
+
+/**
+ * Re-encrypts a keystore under a new passphrase. The key, and so the address, stays the same.
+ * Example:
+ *   - npx hardhat task:keystore-rotate --name deployer
+ */
+task("task:keystore-rotate", "Changes the passphrase of a keystore")
+  .addParam("name", "Keystore name, or a path ending in .json")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const file = keystorePath(hre.config.paths.root, taskArguments.name);
+    const wallet = await loadKeystore(file);
+    await saveKeystore(file, wallet, await newPassword(NEW_PASSWORD_ENV));
+    console.log(`Re-encrypted ${file} for ${wallet.address}`);
+  });
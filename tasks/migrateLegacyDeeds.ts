@@ -0,0 +1,602 @@
+import fs from "fs";
+import path from "path";
+import { isError, toUtf8Bytes, toUtf8String } from "ethers";
+import { task, types } from "hardhat/config";
+import type { HardhatRuntimeEnvironment, TaskArguments } from "hardhat/types";
+import {
+  DeedRegistryClient,
+  UINT32_MAX,
+  cooldownRemaining,
+  findRegistryEvent,
+  queryRegistryEvents,
+  rethrowRegistryError,
+} from "../sdk";
+import type { DeedPlaintext, RegistryEvent } from "../sdk";
+import { UniversalAdapter__factory } from "../types";
+import type { UniversalAdapter } from "../types";
+
+const LEGACY_KEY = "property_deeds";
+// The key the web app reads public deed metadata from (METADATA_KEY in
+// frontend/web/src/deedMetadata.ts). It is the same key as the legacy blob.
+const METADATA_KEY = "property_deeds";
+const MAX_METADATA_ATTEMPTS = 5;
+// How long a resumed run waits for the previous run's in-flight registration to be mined
+const IN_FLIGHT_TIMEOUT_MS = 10 * 60 * 1000;
+
+interface LegacyDeed {
+  id: number;
+  encryptedId: string;
+  location: string;
+  coordinates: { lat: number; lng: number };
+  encryptedOwner: string;
+  encryptedValue: string;
+  timestamp: number;
+  transactionHistory: string[];
+}
+
+interface MigratedEntry {
+  legacyId: number;
+  batchId: number;
+  deedIndex: number;
+  transactionHash: string;
+  // Whether the deed's location and coordinates are stored under METADATA_KEY; reports
+  // written before metadata was migrated do not have the field
+  metadataWritten?: boolean;
+}
+
+// Mirrors DeedMetadata in frontend/web/src/deedMetadata.ts
+interface DeedMetadataEntry {
+  batchId: number;
+  deedIndex: number;
+  location: string;
+  coordinates: { lat: number; lng: number };
+  timestamp: number;
+}
+
+interface MigrationReport {
+  network: string;
+  adapter: string;
+  // The adapter the web app reads metadata from; may differ from the legacy `adapter`
+  metadataAdapter?: string;
+  registry: string;
+  batchId: number | null;
+  batchClosed: boolean;
+  migrated: MigratedEntry[];
+  // Submitted but not yet confirmed; resolved from its receipt on the next run.
+  // `fromBlock` is the head when it was sent; reports written before it was added lack it.
+  inFlight: {
+    legacyId: number;
+    transactionHash: string;
+    fromBlock?: number;
+  } | null;
+  invalid: { legacyId: unknown; reasons: string[] }[];
+  updatedAt: string;
+}
+
+// Legacy records were "encrypted" as `FHE-` + base64 of the decimal string.
+function decodeLegacyNumber(value: unknown): number {
+  if (typeof value !== "string") return NaN;
+  const raw = value.startsWith("FHE-")
+    ? Buffer.from(value.substring(4), "base64").toString("utf8")
+    : value;
+  return raw.trim() === "" ? NaN : Number(raw);
+}
+
+function isUint32(value: unknown): value is number {
+  return (
+    typeof value === "number" &&
+    Number.isInteger(value) &&
+    value >= 0 &&
+    value <= UINT32_MAX
+  );
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null;
+}
+
+// Metadata entries appended by a migration or by the app share the key with the legacy
+// records; they are recognised by their registry position
+function isMetadataEntry(record: unknown): boolean {
+  return (
+    isObject(record) &&
+    typeof record.batchId === "number" &&
+    typeof record.deedIndex === "number"
+  );
+}
+
+function legacyIdOf(record: unknown): unknown {
+  return isObject(record) ? record.id : undefined;
+}
+
+function validateLegacyDeed(record: unknown): {
+  deed?: LegacyDeed;
+  plaintext?: DeedPlaintext;
+  reasons: string[];
+} {
+  const reasons: string[] = [];
+  if (!isObject(record)) {
+    return { reasons: ["record is not an object"] };
+  }
+  if (
+    typeof record.id !== "number" ||
+    !Number.isInteger(record.id) ||
+    record.id <= 0
+  ) {
+    reasons.push("id must be a positive integer");
+  }
+  if (typeof record.location !== "string" || record.location.trim() === "") {
+    reasons.push("location is empty");
+  }
+  const coordinates = isObject(record.coordinates) ? record.coordinates : {};
+  const lat = coordinates.lat;
+  const lng = coordinates.lng;
+  if (typeof lat !== "number" || lat < -90 || lat > 90) {
+    reasons.push("coordinates.lat is out of range");
+  }
+  if (typeof lng !== "number" || lng < -180 || lng > 180) {
+    reasons.push("coordinates.lng is out of range");
+  }
+  if (!isUint32(record.timestamp)) {
+    reasons.push("timestamp is not a uint32 unix time");
+  }
+  const history = record.transactionHistory;
+  if (!Array.isArray(history)) {
+    reasons.push("transactionHistory is not a list");
+  }
+
+  const propertyId = decodeLegacyNumber(record.encryptedId);
+  const ownerIdentity = Math.floor(decodeLegacyNumber(record.encryptedOwner));
+  const propertyValue = Math.round(decodeLegacyNumber(record.encryptedValue));
+  if (!isUint32(propertyId)) {
+    reasons.push("encryptedId does not decode to a uint32");
+  }
+  if (!isUint32(ownerIdentity)) {
+    reasons.push("encryptedOwner does not decode to a uint32");
+  }
+  if (!isUint32(propertyValue)) {
+    reasons.push("encryptedValue does not decode to a uint32");
+  }
+
+  if (
+    reasons.length > 0 ||
+    !Array.isArray(history) ||
+    !isUint32(record.timestamp)
+  ) {
+    return { reasons };
+  }
+  return {
+    deed: record as unknown as LegacyDeed,
+    plaintext: {
+      ownerIdentity,
+      propertyId,
+      // The first history entry is the registration itself
+      transactionCount: Math.max(0, history.length - 1),
+      lastTransactionTimestamp: record.timestamp,
+      propertyValue,
+    },
+    reasons,
+  };
+}
+
+function loadReport(reportPath: string): MigrationReport | null {
+  if (!fs.existsSync(reportPath)) return null;
+  return JSON.parse(fs.readFileSync(reportPath, "utf8")) as MigrationReport;
+}
+
+function saveReport(reportPath: string, report: MigrationReport) {
+  report.updatedAt = new Date().toISOString();
+  fs.mkdirSync(path.dirname(reportPath), { recursive: true });
+  // Write-then-rename so an interrupted run never leaves a truncated report behind
+  fs.writeFileSync(`${reportPath}.tmp`, JSON.stringify(report, null, 2) + "\n");
+  fs.renameSync(`${reportPath}.tmp`, reportPath);
+}
+
+// Task-side counterpart of appendDeedMetadata in frontend/web/src/deedMetadata.ts: all
+// entries are appended in one compare-and-set write, and the list is re-read on conflict.
+// Entries already stored for their (batchId, deedIndex) are not written again, so a run
+// that died after the write but before the report was saved does not duplicate them.
+async function appendMigratedMetadata(
+  adapter: UniversalAdapter,
+  entries: DeedMetadataEntry[],
+): Promise<string | null> {
+  for (let attempt = 1; ; attempt++) {
+    const [bytes, version] = await adapter.getDataWithVersion(METADATA_KEY);
+    const text = toUtf8String(bytes);
+    const current: unknown = text.trim() === "" ? [] : JSON.parse(text);
+    if (!Array.isArray(current)) {
+      throw new Error(
+        `"${METADATA_KEY}" on ${await adapter.getAddress()} is not a JSON list`,
+      );
+    }
+    const stored = new Set(
+      current
+        .filter(isMetadataEntry)
+        .map((e: DeedMetadataEntry) => `${e.batchId}:${e.deedIndex}`),
+    );
+    const missing = entries.filter(
+      (e) => !stored.has(`${e.batchId}:${e.deedIndex}`),
+    );
+    if (missing.length === 0) return null;
+
+    try {
+      const tx = await adapter.setDataIfVersion(
+        METADATA_KEY,
+        version,
+        toUtf8Bytes(JSON.stringify([...current, ...missing])),
+      );
+      await tx.wait();
+      return tx.hash;
+    } catch (e) {
+      // Only a write that lost the race to another writer is retried
+      if ((await adapter.dataVersion(METADATA_KEY)) === version) throw e;
+      if (attempt >= MAX_METADATA_ATTEMPTS) {
+        throw new Error(
+          `Deed metadata kept changing underneath this write; gave up after ${attempt} attempts`,
+        );
+      }
+    }
+  }
+}
+
+async function waitForCooldown(
+  hre: HardhatRuntimeEnvironment,
+  registry: DeedRegistryClient,
+  account: string,
+) {
+  const remaining = cooldownRemaining(await registry.getCooldown(account));
+  if (remaining === 0) return;
+
+  // A local Hardhat node runs the FHEVM mock and lets us fast-forward instead of sleeping
+  if (hre.fhevm.isMock) {
+    await hre.network.provider.send("evm_increaseTime", [remaining]);
+    await hre.network.provider.send("evm_mine");
+    return;
+  }
+  console.log(`Waiting ${remaining}s for the submission cooldown...`);
+  await new Promise((res) => setTimeout(res, (remaining + 1) * 1000));
+}
+
+// Finds the deed the previous run's in-flight registration created, if any. A transaction
+// the node no longer knows may have been dropped, or replaced (e.g. sped up) by one that
+// did register, so the batch is searched for a deed from this signer the report lacks.
+// Deeds are sent one at a time, so there is at most one.
+async function recoverInFlight(
+  hre: HardhatRuntimeEnvironment,
+  registry: DeedRegistryClient,
+  signer: string,
+  report: MigrationReport,
+): Promise<MigratedEntry | null> {
+  const { legacyId, transactionHash, fromBlock } = report.inFlight!;
+  const { ethers } = hre;
+
+  if (await ethers.provider.getTransaction(transactionHash)) {
+    let receipt;
+    try {
+      receipt = await ethers.provider.waitForTransaction(
+        transactionHash,
+        1,
+        IN_FLIGHT_TIMEOUT_MS,
+      );
+    } catch (e) {
+      if (!isError(e, "TIMEOUT")) throw e;
+      throw new Error(
+        `Registration of id=${legacyId} (${transactionHash}) is still not mined after ${IN_FLIGHT_TIMEOUT_MS / 60000} minutes; wait for it or replace it, then run again`,
+      );
+    }
+    const registered =
+      receipt && receipt.status === 1
+        ? findRegistryEvent(receipt.logs, "DeedRegistered")
+        : undefined;
+    return registered
+      ? {
+          legacyId,
+          batchId: Number(registered.batchId),
+          deedIndex: Number(registered.deedIndex),
+          transactionHash,
+        }
+      : null;
+  }
+
+  console.log(
+    `Transaction ${transactionHash} for id=${legacyId} is unknown to the node; checking batch ${report.batchId} for it`,
+  );
+  const recorded = new Set(
+    report.migrated.map((m) => `${m.batchId}:${m.deedIndex}`),
+  );
+  const { events } = await queryRegistryEvents(registry, ["DeedRegistered"], {
+    fromBlock: fromBlock ?? 0,
+  });
+  const unrecorded = events.filter(
+    (e): e is RegistryEvent<"DeedRegistered"> =>
+      e.name === "DeedRegistered" &&
+      e.provider.toLowerCase() === signer.toLowerCase() &&
+      Number(e.batchId) === report.batchId &&
+      !recorded.has(`${e.batchId}:${e.deedIndex}`),
+  );
+  if (unrecorded.length > 1) {
+    throw new Error(
+      `Batch ${report.batchId} has ${unrecorded.length} deeds from ${signer} that the report does not list; it cannot tell which is id=${legacyId}`,
+    );
+  }
+  const [found] = unrecorded;
+  if (!found) return null;
+  return {
+    legacyId,
+    batchId: Number(found.batchId),
+    deedIndex: Number(found.deedIndex),
+    transactionHash: found.transactionHash,
+  };
+}
+
+/**
+ * Example:
+ *   - npx hardhat --network sepolia task:migrate-legacy-deeds --adapter 0x... --registry 0x... --dry-run
+ *   - npx hardhat --network sepolia task:migrate-legacy-deeds --adapter 0x... --registry 0x... --close-batch
+ *   - npx hardhat --network sepolia task:migrate-legacy-deeds --adapter 0x... --registry 0x... --metadata-adapter 0x...
+ */
+task(
+  "task:migrate-legacy-deeds",
+  "Re-registers legacy UniversalAdapter deeds on DeedRegistryFHE",
+)
+  .addParam(
+    "adapter",
+    "Address of the UniversalAdapter holding the legacy JSON blob",
+  )
+  .addParam("registry", "Address of the DeedRegistryFHE contract")
+  .addOptionalParam(
+    "metadataAdapter",
+    "UniversalAdapter the web app reads deed metadata from (default: the network's UniversalAdapter deployment)",
+    undefined,
+    types.string,
+  )
+  .addOptionalParam(
+    "report",
+    "Path of the mapping report (also used to resume)",
+    undefined,
+    types.string,
+  )
+  .addFlag(
+    "dryRun",
+    "Validate the legacy records and print the plan without sending transactions",
+  )
+  .addFlag(
+    "closeBatch",
+    "Close the migration batch once every valid record is migrated",
+  )
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers, fhevm } = hre;
+    const reportPath: string =
+      taskArguments.report ??
+      path.join("migrations", `${hre.network.name}-legacy-deeds.json`);
+
+    const [signer] = await ethers.getSigners();
+    const adapter = UniversalAdapter__factory.connect(
+      taskArguments.adapter,
+      ethers.provider,
+    );
+    const registry = DeedRegistryClient.connect(taskArguments.registry, signer);
+    const metadataAdapterAddress: string | undefined =
+      taskArguments.metadataAdapter ??
+      (await hre.deployments.getOrNull("UniversalAdapter"))?.address;
+    if (!metadataAdapterAddress) {
+      throw new Error(
+        `No UniversalAdapter deployment on ${hre.network.name}; pass --metadata-adapter`,
+      );
+    }
+    const metadataAdapter = UniversalAdapter__factory.connect(
+      metadataAdapterAddress,
+      signer,
+    );
+    // Registry writes fail with the decoded custom error rather than raw revert data
+    const send = <T>(write: () => Promise<T>): Promise<T> =>
+      write().catch((e) =>
+        rethrowRegistryError(e, { client: registry, account: signer.address }),
+      );
+
+    const blob = await adapter.getData(LEGACY_KEY);
+    const text = ethers.toUtf8String(blob);
+    const records: unknown = text.trim() === "" ? [] : JSON.parse(text);
+    if (!Array.isArray(records)) {
+      throw new Error(`Legacy "${LEGACY_KEY}" value is not a JSON list`);
+    }
+
+    const previous = loadReport(reportPath);
+    if (
+      previous &&
+      previous.registry.toLowerCase() !== registry.address.toLowerCase()
+    ) {
+      throw new Error(
+        `Report ${reportPath} belongs to registry ${previous.registry}; pass a different --report`,
+      );
+    }
+    const report: MigrationReport = previous ?? {
+      network: hre.network.name,
+      adapter: taskArguments.adapter,
+      metadataAdapter: metadataAdapterAddress,
+      registry: registry.address,
+      batchId: null,
+      batchClosed: false,
+      migrated: [],
+      inFlight: null,
+      invalid: [],
+      updatedAt: "",
+    };
+
+    if (report.inFlight && !taskArguments.dryRun) {
+      const recovered = await recoverInFlight(
+        hre,
+        registry,
+        signer.address,
+        report,
+      );
+      if (recovered) {
+        report.migrated.push(recovered);
+        console.log(
+          `Recovered id=${recovered.legacyId} from ${recovered.transactionHash}`,
+        );
+      } else {
+        console.log(
+          `id=${report.inFlight.legacyId} was not registered; it will be sent again`,
+        );
+      }
+      report.inFlight = null;
+      saveReport(reportPath, report);
+    }
+
+    if (
+      report.metadataAdapter &&
+      report.metadataAdapter.toLowerCase() !==
+        metadataAdapterAddress.toLowerCase()
+    ) {
+      throw new Error(
+        `Report ${reportPath} wrote metadata to ${report.metadataAdapter}; pass it as --metadata-adapter`,
+      );
+    }
+    report.metadataAdapter = metadataAdapterAddress;
+
+    const done = new Set(report.migrated.map((m) => m.legacyId));
+    const pending: { deed: LegacyDeed; plaintext: DeedPlaintext }[] = [];
+    const valid = new Map<number, LegacyDeed>();
+    report.invalid = [];
+    for (const record of records) {
+      if (isMetadataEntry(record)) continue;
+      const { deed, plaintext, reasons } = validateLegacyDeed(record);
+      if (deed && valid.has(deed.id)) {
+        reasons.push("duplicate id");
+      }
+      if (!deed || !plaintext || reasons.length > 0) {
+        report.invalid.push({ legacyId: legacyIdOf(record), reasons });
+        continue;
+      }
+      valid.set(deed.id, deed);
+      if (!done.has(deed.id)) pending.push({ deed, plaintext });
+    }
+    const withoutMetadata = () =>
+      report.migrated.filter((m) => !m.metadataWritten);
+
+    console.log(
+      `Legacy records:   ${records.filter((r) => !isMetadataEntry(r)).length}`,
+    );
+    console.log(`Invalid:          ${report.invalid.length}`);
+    console.log(`Already migrated: ${done.size}`);
+    console.log(`To migrate:       ${pending.length}`);
+    console.log(
+      `Missing metadata: ${withoutMetadata().length + pending.length} (on ${metadataAdapterAddress})`,
+    );
+    for (const invalid of report.invalid) {
+      console.log(
+        `  skip id=${String(invalid.legacyId)}: ${invalid.reasons.join("; ")}`,
+      );
+    }
+
+    if (taskArguments.dryRun) {
+      const batchPlan =
+        report.batchId !== null
+          ? `reuse batch ${report.batchId}`
+          : "open a new batch";
+      console.log(
+        `Dry run: would ${batchPlan}, register ${pending.length} deed(s) as ${signer.address} and store their metadata`,
+      );
+      return;
+    }
+
+    const settings = await registry.getSettings();
+    if (!(await registry.isProvider(signer.address))) {
+      throw new Error(
+        `${signer.address} is not a registered provider on ${registry.address}`,
+      );
+    }
+
+    if (pending.length > 0) {
+      if (
+        report.batchId === null ||
+        (await registry.getBatch(report.batchId)).closed
+      ) {
+        if (settings.owner.toLowerCase() !== signer.address.toLowerCase()) {
+          throw new Error(
+            `Opening a batch requires the registry owner ${settings.owner}`,
+          );
+        }
+        const opened = await send(async () =>
+          registry.waitForBatchOpened(await registry.openBatch()),
+        );
+        report.batchId = Number(opened.batchId);
+        report.batchClosed = false;
+        saveReport(reportPath, report);
+        console.log(`Opened migration batch ${report.batchId}`);
+      } else if (BigInt(report.batchId) !== (await registry.currentBatchId())) {
+        throw new Error(
+          `Batch ${report.batchId} is no longer the current batch; deeds cannot be appended to it`,
+        );
+      }
+
+      await fhevm.initializeCLIApi();
+      for (const { deed, plaintext } of pending) {
+        await waitForCooldown(hre, registry, signer.address);
+        const fromBlock = await ethers.provider.getBlockNumber();
+        const tx = await send(() =>
+          registry.encryptAndRegisterDeed(fhevm, signer.address, plaintext),
+        );
+        report.inFlight = {
+          legacyId: deed.id,
+          transactionHash: tx.hash,
+          fromBlock,
+        };
+        saveReport(reportPath, report);
+        const registered = await registry.waitForDeedRegistered(tx);
+        report.inFlight = null;
+        report.migrated.push({
+          legacyId: deed.id,
+          batchId: Number(registered.batchId),
+          deedIndex: Number(registered.deedIndex),
+          transactionHash: registered.transactionHash,
+        });
+        saveReport(reportPath, report);
+        console.log(
+          `Migrated id=${deed.id} -> (${registered.batchId}, ${registered.deedIndex})`,
+        );
+      }
+    }
+
+    // Without this the app would list the migrated deeds with no location or coordinates
+    const metadata: DeedMetadataEntry[] = [];
+    for (const entry of withoutMetadata()) {
+      const deed = valid.get(entry.legacyId);
+      if (!deed) {
+        throw new Error(
+          `Migrated id=${entry.legacyId} is no longer a valid legacy record; its metadata cannot be written`,
+        );
+      }
+      metadata.push({
+        batchId: entry.batchId,
+        deedIndex: entry.deedIndex,
+        location: deed.location,
+        coordinates: deed.coordinates,
+        timestamp: deed.timestamp,
+      });
+    }
+    if (metadata.length > 0) {
+      const hash = await appendMigratedMetadata(metadataAdapter, metadata);
+      for (const entry of withoutMetadata()) entry.metadataWritten = true;
+      saveReport(reportPath, report);
+      console.log(
+        hash
+          ? `Stored metadata for ${metadata.length} deed(s) in ${hash}`
+          : `Metadata for ${metadata.length} deed(s) was already stored`,
+      );
+    }
+
+    if (
+      taskArguments.closeBatch &&
+      report.batchId !== null &&
+      !report.batchClosed
+    ) {
+      const batchId = report.batchId;
+      await send(async () => (await registry.closeBatch(batchId)).wait());
+      report.batchClosed = true;
+      console.log(`Closed migration batch ${report.batchId}`);
+    }
+    saveReport(reportPath, report);
+    console.log(`Mapping report written to ${reportPath}`);
+  });
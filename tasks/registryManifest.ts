@@ -0,0 +1,232 @@
+import fs from "fs";
+import path from "path";
+import {
+  type ContractTransactionResponse,
+  ZeroAddress,
+  getAddress,
+  isAddress,
+} from "ethers";
+import { task } from "hardhat/config";
+import type { TaskArguments } from "hardhat/types";
+import {
+  DeedRegistryClient,
+  loadProviderSet,
+  rethrowRegistryError,
+} from "../sdk";
+
+// Desired post-deploy state of DeedRegistryFHE on one network. Every field is optional;
+// anything left out is not managed and is never changed.
+interface RegistryManifest {
+  // Defaults to the DeedRegistryFHE deployment recorded by hardhat-deploy
+  registry?: string;
+  // First block to scan for provider events; required with `registry`
+  registryDeployBlock?: number;
+  // The exact provider set: listed accounts are added and unlisted ones removed
+  providers?: string[];
+  cooldownSeconds?: number;
+  // Opens batch 1 if no batch was ever opened
+  openInitialBatch?: boolean;
+  // Ownership is handed over last, once the owner has made every other change
+  owner?: string;
+}
+
+type PlannedStep = {
+  description: string;
+  send: (registry: DeedRegistryClient) => Promise<ContractTransactionResponse>;
+};
+
+const isNonNegativeInteger = (value: unknown): value is number =>
+  Number.isInteger(value) && (value as number) >= 0;
+
+function validateManifest(raw: unknown): {
+  manifest?: RegistryManifest;
+  reasons: string[];
+} {
+  const reasons: string[] = [];
+  if (typeof raw !== "object" || raw === null || Array.isArray(raw)) {
+    return { reasons: ["manifest is not an object"] };
+  }
+  const fields = raw as Record<string, unknown>;
+  const address = (value: unknown, field: string) => {
+    if (typeof value !== "string" || !isAddress(value)) {
+      reasons.push(`${field} is not an address`);
+    } else if (getAddress(value) === ZeroAddress) {
+      reasons.push(`${field} is the zero address`);
+    }
+  };
+  if (fields.registry !== undefined) {
+    address(fields.registry, "registry");
+    if (!isNonNegativeInteger(fields.registryDeployBlock)) {
+      reasons.push("registryDeployBlock must be given with registry");
+    }
+  }
+  if (fields.providers !== undefined) {
+    if (!Array.isArray(fields.providers)) {
+      reasons.push("providers is not a list");
+    } else {
+      const providers: unknown[] = fields.providers;
+      providers.forEach((p, i) => address(p, `providers[${i}]`));
+      const unique = new Set(providers.map((p) => String(p).toLowerCase()));
+      if (unique.size !== providers.length) {
+        reasons.push("providers lists an account twice");
+      }
+    }
+  }
+  if (
+    fields.cooldownSeconds !== undefined &&
+    !isNonNegativeInteger(fields.cooldownSeconds)
+  ) {
+    reasons.push("cooldownSeconds must be a non-negative integer");
+  }
+  if (
+    fields.openInitialBatch !== undefined &&
+    typeof fields.openInitialBatch !== "boolean"
+  ) {
+    reasons.push("openInitialBatch must be true or false");
+  }
+  if (fields.owner !== undefined) address(fields.owner, "owner");
+
+  return reasons.length > 0
+    ? { reasons }
+    : { manifest: fields as RegistryManifest, reasons };
+}
+
+/**
+ * Converges a registry on its network's manifest. The on-chain state is read first, the
+ * differences are printed as a plan, and only the transactions in that plan are sent, so
+ * a second run against an unchanged chain does nothing.
+ *
+ * Example:
+ *   - npx hardhat --network sepolia task:apply-manifest --dry-run
+ *   - npx hardhat --network sepolia task:apply-manifest --manifest manifests/staging.json
+ */
+task(
+  "task:apply-manifest",
+  "Applies a declarative provider, cooldown, batch and owner manifest to DeedRegistryFHE",
+)
+  .addOptionalParam(
+    "manifest",
+    "Path of the manifest (default: manifests/<network>.json)",
+  )
+  .addFlag("dryRun", "Print the plan without sending transactions")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const manifestPath: string =
+      taskArguments.manifest ??
+      path.join("manifests", `${hre.network.name}.json`);
+    if (!fs.existsSync(manifestPath)) {
+      throw new Error(`Manifest ${manifestPath} does not exist`);
+    }
+    const { manifest, reasons } = validateManifest(
+      JSON.parse(fs.readFileSync(manifestPath, "utf8")),
+    );
+    if (!manifest) {
+      throw new Error(
+        `Manifest ${manifestPath} is invalid: ${reasons.join("; ")}`,
+      );
+    }
+
+    let registryAddress = manifest.registry;
+    let fromBlock = manifest.registryDeployBlock ?? 0;
+    if (registryAddress === undefined) {
+      const deployment = await hre.deployments.getOrNull("DeedRegistryFHE");
+      if (!deployment) {
+        throw new Error(
+          `No DeedRegistryFHE deployment on ${hre.network.name}; deploy first or set "registry" in ${manifestPath}`,
+        );
+      }
+      registryAddress = deployment.address;
+      fromBlock = deployment.receipt?.blockNumber ?? 0;
+    }
+
+    const [signer] = await hre.ethers.getSigners();
+    const registry = DeedRegistryClient.connect(registryAddress, signer);
+    const settings = await registry.getSettings();
+    const isOwner = (account: string) =>
+      settings.owner.toLowerCase() === account.toLowerCase();
+
+    const steps: PlannedStep[] = [];
+    if (manifest.providers !== undefined) {
+      const desired = new Map(
+        manifest.providers.map((p) => [p.toLowerCase(), getAddress(p)]),
+      );
+      const current = new Map(
+        (await loadProviderSet(registry, fromBlock)).map((p) => [
+          p.toLowerCase(),
+          p,
+        ]),
+      );
+      for (const [key, provider] of desired) {
+        if (!current.has(key)) {
+          steps.push({
+            description: `addProvider(${provider})`,
+            send: (r) => r.addProvider(provider),
+          });
+        }
+      }
+      for (const [key, provider] of current) {
+        if (!desired.has(key)) {
+          steps.push({
+            description: `removeProvider(${provider})`,
+            send: (r) => r.removeProvider(provider),
+          });
+        }
+      }
+    }
+    if (
+      manifest.cooldownSeconds !== undefined &&
+      settings.cooldownSeconds !== BigInt(manifest.cooldownSeconds)
+    ) {
+      const seconds = manifest.cooldownSeconds;
+      steps.push({
+        description: `setCooldownSeconds(${seconds}) (currently ${settings.cooldownSeconds})`,
+        send: (r) => r.setCooldownSeconds(seconds),
+      });
+    }
+    if (manifest.openInitialBatch && settings.currentBatchId === 0n) {
+      if (settings.paused) {
+        throw new Error(
+          "The registry is paused, so the initial batch cannot be opened",
+        );
+      }
+      steps.push({
+        description: "openBatch()",
+        send: (r) => r.openBatch(),
+      });
+    }
+    if (manifest.owner !== undefined && !isOwner(manifest.owner)) {
+      const owner = getAddress(manifest.owner);
+      steps.push({
+        description: `transferOwnership(${owner}) (currently ${settings.owner})`,
+        send: (r) => r.transferOwnership(owner),
+      });
+    }
+
+    console.log(`Manifest: ${manifestPath}`);
+    console.log(`Registry: ${registry.address} on ${hre.network.name}`);
+    if (steps.length === 0) {
+      console.log("Registry already matches the manifest");
+      return;
+    }
+    console.log(`Plan (${steps.length} transaction(s)):`);
+    steps.forEach((step, i) => console.log(`  ${i + 1}. ${step.description}`));
+
+    if (taskArguments.dryRun) {
+      console.log("Dry run: nothing sent");
+      return;
+    }
+    if (!isOwner(signer.address)) {
+      throw new Error(
+        `Applying the plan requires the registry owner ${settings.owner}, not ${signer.address}`,
+      );
+    }
+    for (const step of steps) {
+      const tx = await step.send(registry).catch((e) =>
+        rethrowRegistryError(e, {
+          client: registry,
+          account: signer.address,
+        }),
+      );
+      await tx.wait();
+      console.log(`Done: ${step.description}`);
+    }
+  });
@@ -0,0 +1,336 @@
+import { FhevmType } from "@fhevm/hardhat-plugin";
+import type { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { expect } from "chai";
+import { ZeroAddress } from "ethers";
+import { ethers, fhevm } from "hardhat";
+
+import type { DeedRegistryFHE } from "../types";
+
+const OWNER_ID = 1042;
+const NEW_OWNER_ID = 2051;
+const PROPERTY_VALUE = 350_000;
+
+describe("DeedRegistryFHE", function () {
+  let registrar: HardhatEthersSigner;
+  let otherProvider: HardhatEthersSigner;
+  let owner: HardhatEthersSigner;
+  let recipient: HardhatEthersSigner;
+  let registry: DeedRegistryFHE;
+  let registryAddress: string;
+
+  before(async function () {
+    [, registrar, otherProvider, owner, recipient] = await ethers.getSigners();
+  });
+
+  beforeEach(async function () {
+    // Encryption and decryption here rely on the mock coprocessor
+    if (!fhevm.isMock) {
+      this.skip();
+    }
+    registry = await ethers.deployContract("DeedRegistryFHE");
+    registryAddress = await registry.getAddress();
+    await registry.addProvider(registrar.address);
+    await registry.addProvider(otherProvider.address);
+    await registry.openBatch();
+  });
+
+  async function registerDeed(value = PROPERTY_VALUE): Promise<void> {
+    const input = await fhevm
+      .createEncryptedInput(registryAddress, registrar.address)
+      .add32(OWNER_ID)
+      .add32(77)
+      .add32(0)
+      .add32(1_700_000_000)
+      .add32(value)
+      .encrypt();
+    await registry
+      .connect(registrar)
+      .registerDeed(
+        input.handles[0],
+        input.handles[1],
+        input.handles[2],
+        input.handles[3],
+        input.handles[4],
+        input.inputProof,
+      );
+  }
+
+  async function transfer(
+    sender: HardhatEthersSigner,
+    currentOwner: number,
+    newOwner: number,
+    to: string = ZeroAddress,
+  ) {
+    const input = await fhevm
+      .createEncryptedInput(registryAddress, sender.address)
+      .add32(currentOwner)
+      .add32(newOwner)
+      .encrypt();
+    return registry
+      .connect(sender)
+      .transferDeed(
+        1,
+        0,
+        input.handles[0],
+        input.handles[1],
+        input.inputProof,
+        to,
+      );
+  }
+
+  async function decrypt(handle: string, reader: HardhatEthersSigner) {
+    return fhevm.userDecryptEuint(
+      FhevmType.euint32,
+      handle,
+      registryAddress,
+      reader,
+    );
+  }
+
+  async function canDecrypt(handle: string, reader: HardhatEthersSigner) {
+    try {
+      await decrypt(handle, reader);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  describe("transferDeed", function () {
+    beforeEach(async function () {
+      await registerDeed();
+    });
+
+    it("applies an owner's transfer when the claimed identity matches", async function () {
+      await expect(transfer(owner, OWNER_ID, NEW_OWNER_ID))
+        .to.emit(registry, "DeedTransferred")
+        .withArgs(1n, 0n, false);
+
+      const deed = await registry.deeds(1, 0);
+      expect(await decrypt(deed.encryptedOwnerIdentity, registrar)).to.equal(
+        BigInt(NEW_OWNER_ID),
+      );
+      expect(await decrypt(deed.encryptedTransactionCount, registrar)).to.equal(
+        1n,
+      );
+    });
+
+    it("leaves the deed unchanged when an owner's claim is wrong", async function () {
+      await expect(transfer(owner, OWNER_ID + 1, NEW_OWNER_ID)).to.emit(
+        registry,
+        "DeedTransferred",
+      );
+
+      const deed = await registry.deeds(1, 0);
+      expect(await decrypt(deed.encryptedOwnerIdentity, registrar)).to.equal(
+        BigInt(OWNER_ID),
+      );
+      expect(await decrypt(deed.encryptedTransactionCount, registrar)).to.equal(
+        0n,
+      );
+    });
+
+    it("lets the deed's registrar transfer without a claim and grant the recipient", async function () {
+      await expect(transfer(registrar, 0, NEW_OWNER_ID, recipient.address))
+        .to.emit(registry, "DeedAccessGranted")
+        .withArgs(1n, 0n, registrar.address)
+        .and.to.emit(registry, "DeedTransferred")
+        .withArgs(1n, 0n, true);
+
+      const deed = await registry.deeds(1, 0);
+      expect(await decrypt(deed.encryptedOwnerIdentity, recipient)).to.equal(
+        BigInt(NEW_OWNER_ID),
+      );
+      expect(await decrypt(deed.encryptedPropertyValue, recipient)).to.equal(
+        BigInt(PROPERTY_VALUE),
+      );
+    });
+
+    it("treats another provider as an owner who has to prove the claim", async function () {
+      // A claim of 0 is what the registrar path sends; here it is simply wrong
+      await transfer(otherProvider, 0, NEW_OWNER_ID);
+
+      const deed = await registry.deeds(1, 0);
+      expect(await decrypt(deed.encryptedOwnerIdentity, registrar)).to.equal(
+        BigInt(OWNER_ID),
+      );
+      expect(await canDecrypt(deed.encryptedOwnerIdentity, otherProvider)).to.be
+        .false;
+    });
+
+    it("rejects a recipient from another provider", async function () {
+      await expect(
+        transfer(otherProvider, 0, NEW_OWNER_ID, recipient.address),
+      ).to.be.revertedWithCustomError(registry, "RecipientNotAllowed");
+    });
+
+    it("rejects a recipient on the owner path, even with a correct claim", async function () {
+      await expect(
+        transfer(owner, OWNER_ID, NEW_OWNER_ID, recipient.address),
+      ).to.be.revertedWithCustomError(registry, "RecipientNotAllowed");
+
+      const deed = await registry.deeds(1, 0);
+      expect(await decrypt(deed.encryptedOwnerIdentity, registrar)).to.equal(
+        BigInt(OWNER_ID),
+      );
+    });
+
+    it("stops treating a removed provider as the deed's registrar", async function () {
+      await registry.removeProvider(registrar.address);
+      await expect(
+        transfer(registrar, 0, NEW_OWNER_ID, recipient.address),
+      ).to.be.revertedWithCustomError(registry, "RecipientNotAllowed");
+    });
+
+    it("grants the new handles to the registrar only after an owner's transfer", async function () {
+      await transfer(owner, OWNER_ID, NEW_OWNER_ID);
+
+      const deed = await registry.deeds(1, 0);
+      expect(await canDecrypt(deed.encryptedOwnerIdentity, registrar)).to.be
+        .true;
+      expect(await canDecrypt(deed.encryptedOwnerIdentity, owner)).to.be.false;
+      expect(await canDecrypt(deed.encryptedPropertyValue, owner)).to.be.false;
+    });
+
+    it("leaves access unchanged after an owner's failed claim", async function () {
+      await transfer(owner, OWNER_ID + 1, NEW_OWNER_ID);
+
+      const deed = await registry.deeds(1, 0);
+      expect(await canDecrypt(deed.encryptedOwnerIdentity, owner)).to.be.false;
+      expect(await canDecrypt(deed.encryptedPropertyValue, owner)).to.be.false;
+      expect(await canDecrypt(deed.encryptedOwnerIdentity, registrar)).to.be
+        .true;
+      expect(await canDecrypt(deed.encryptedPropertyValue, registrar)).to.be
+        .true;
+    });
+
+    it("reverts for a deed that does not exist", async function () {
+      const input = await fhevm
+        .createEncryptedInput(registryAddress, registrar.address)
+        .add32(0)
+        .add32(NEW_OWNER_ID)
+        .encrypt();
+      await expect(
+        registry
+          .connect(registrar)
+          .transferDeed(
+            1,
+            1,
+            input.handles[0],
+            input.handles[1],
+            input.inputProof,
+            ZeroAddress,
+          ),
+      ).to.be.revertedWithCustomError(registry, "DeedNotFound");
+    });
+  });
+
+  describe("getDeedPage", function () {
+    beforeEach(async function () {
+      for (let i = 0; i < 3; i++) {
+        await registerDeed();
+      }
+    });
+
+    it("returns the requested range with its registrars", async function () {
+      const [page, registrars, total] = await registry.getDeedPage(1, 1, 10);
+      expect(total).to.equal(3n);
+      expect(page).to.have.length(2);
+      expect(registrars).to.deep.equal([registrar.address, registrar.address]);
+      expect(page[0].encryptedPropertyValue).to.equal(
+        (await registry.deeds(1, 1)).encryptedPropertyValue,
+      );
+    });
+
+    it("clamps the range to the batch", async function () {
+      const [page, , total] = await registry.getDeedPage(1, 3, 10);
+      expect(total).to.equal(3n);
+      expect(page).to.have.length(0);
+
+      const [limited] = await registry.getDeedPage(1, 0, 2);
+      expect(limited).to.have.length(2);
+    });
+
+    it("clamps the limit to MAX_DEED_PAGE_SIZE", async function () {
+      const [page] = await registry.getDeedPage(1, 0, ethers.MaxUint256);
+      expect(page).to.have.length(3);
+    });
+
+    it("reverts for a batch that was never opened", async function () {
+      await expect(
+        registry.getDeedPage(0, 0, 10),
+      ).to.be.revertedWithCustomError(registry, "InvalidBatchId");
+      await expect(
+        registry.getDeedPage(2, 0, 10),
+      ).to.be.revertedWithCustomError(registry, "InvalidBatchId");
+    });
+  });
+
+  describe("value-sum decryption", function () {
+    beforeEach(async function () {
+      await registerDeed(100_000);
+      await registerDeed(250_000);
+      await registry.closeBatch(1);
+    });
+
+    async function requestDecryption(): Promise<bigint> {
+      const receipt = await (
+        await registry.requestBatchValueSumDecryption(1)
+      ).wait();
+      const event = receipt!.logs
+        .map((log) => registry.interface.parseLog(log))
+        .find((parsed) => parsed?.name === "DecryptionRequested");
+      return event!.args.requestId as bigint;
+    }
+
+    it("publishes the sum of the batch's values", async function () {
+      const requestId = await requestDecryption();
+      await fhevm.awaitDecryptionOracle();
+
+      const filter = registry.filters.DecryptionCompleted(requestId);
+      const [completed] = await registry.queryFilter(filter);
+      expect(completed.args.propertyValueSum).to.equal(350_000n);
+      expect((await registry.decryptionContexts(requestId)).processed).to.be
+        .true;
+    });
+
+    it("only lets the registry owner request a decryption", async function () {
+      await expect(
+        registry.connect(registrar).requestBatchValueSumDecryption(1),
+      ).to.be.revertedWithCustomError(registry, "NotOwner");
+      await expect(
+        registry.connect(owner).requestBatchValueSumDecryption(1),
+      ).to.be.revertedWithCustomError(registry, "NotOwner");
+    });
+
+    it("moves the right to request along with ownership", async function () {
+      await registry.transferOwnership(owner.address);
+
+      await expect(
+        registry.connect(owner).requestBatchValueSumDecryption(1),
+      ).to.emit(registry, "DecryptionRequested");
+      await expect(
+        registry.requestBatchValueSumDecryption(1),
+      ).to.be.revertedWithCustomError(registry, "NotOwner");
+    });
+
+    it("rejects cleartexts that do not hold one word per deed", async function () {
+      const requestId = await requestDecryption();
+      const oneWord = ethers.AbiCoder.defaultAbiCoder().encode(
+        ["uint256"],
+        [350_000],
+      );
+      await expect(
+        registry.myCallback(requestId, oneWord, "0x"),
+      ).to.be.revertedWithCustomError(registry, "InvalidProof");
+    });
+
+    it("rejects a second callback for the same request", async function () {
+      const requestId = await requestDecryption();
+      await fhevm.awaitDecryptionOracle();
+      await expect(
+        registry.myCallback(requestId, "0x", "0x"),
+      ).to.be.revertedWithCustomError(registry, "ReplayAttempt");
+    });
+  });
+});
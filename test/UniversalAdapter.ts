@@ -0,0 +1,87 @@
+import type { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { expect } from "chai";
+import { ethers } from "hardhat";
+
+import type { UniversalAdapter } from "../types";
+
+const KEY = "property_deeds";
+
+describe("UniversalAdapter", function () {
+  let alice: HardhatEthersSigner;
+  let bob: HardhatEthersSigner;
+  let adapter: UniversalAdapter;
+
+  before(async function () {
+    [, alice, bob] = await ethers.getSigners();
+  });
+
+  beforeEach(async function () {
+    adapter = await ethers.deployContract("UniversalAdapter");
+  });
+
+  it("starts every key at version 0", async function () {
+    const [value, version] = await adapter.getDataWithVersion(KEY);
+    expect(value).to.equal("0x");
+    expect(version).to.equal(0n);
+  });
+
+  it("writes with the current version and bumps it", async function () {
+    await expect(adapter.connect(alice).setDataIfVersion(KEY, 0, "0x01"))
+      .to.emit(adapter, "DataStored")
+      .withArgs(alice.address, KEY, "0x01");
+
+    const [value, version] = await adapter.getDataWithVersion(KEY);
+    expect(value).to.equal("0x01");
+    expect(version).to.equal(1n);
+  });
+
+  it("rejects a write based on a stale version and keeps the newer value", async function () {
+    // Both clerks read version 0; alice's write lands first
+    await adapter.connect(alice).setDataIfVersion(KEY, 0, "0x01");
+
+    await expect(adapter.connect(bob).setDataIfVersion(KEY, 0, "0x02"))
+      .to.be.revertedWithCustomError(adapter, "VersionMismatch")
+      .withArgs(KEY, 0n, 1n);
+
+    const [value, version] = await adapter.getDataWithVersion(KEY);
+    expect(value).to.equal("0x01");
+    expect(version).to.equal(1n);
+  });
+
+  it("stores nothing and emits nothing when the version check fails", async function () {
+    await adapter.connect(alice).setDataIfVersion(KEY, 0, "0x01");
+
+    await expect(
+      adapter.connect(bob).setDataIfVersion(KEY, 0, "0x02"),
+    ).to.be.revertedWithCustomError(adapter, "VersionMismatch");
+
+    const stored = await adapter.queryFilter(adapter.filters.DataStored());
+    expect(stored.map((event) => event.args.sender)).to.deep.equal([
+      alice.address,
+    ]);
+    expect(await adapter.dataVersion(KEY)).to.equal(1n);
+    expect(await adapter.getData(KEY)).to.equal("0x01");
+  });
+
+  it("rejects a version from the future", async function () {
+    await expect(adapter.setDataIfVersion(KEY, 5, "0x01"))
+      .to.be.revertedWithCustomError(adapter, "VersionMismatch")
+      .withArgs(KEY, 5n, 0n);
+  });
+
+  it("counts unconditional setData writes as versions", async function () {
+    await adapter.setData(KEY, "0x01");
+    await expect(
+      adapter.setDataIfVersion(KEY, 0, "0x02"),
+    ).to.be.revertedWithCustomError(adapter, "VersionMismatch");
+    await adapter.setDataIfVersion(KEY, 1, "0x02");
+    expect(await adapter.dataVersion(KEY)).to.equal(2n);
+  });
+
+  it("versions keys independently", async function () {
+    await adapter.setDataIfVersion(KEY, 0, "0x01");
+    await adapter.setDataIfVersion("other", 0, "0x02");
+    expect(await adapter.dataVersion(KEY)).to.equal(1n);
+    expect(await adapter.dataVersion("other")).to.equal(1n);
+  });
+});
@@ -3,6 +3,7 @@
 /* eslint-disable */
 import type {
   BaseContract,
+  BigNumberish,
   BytesLike,
   FunctionFragment,
   Result,
@@ -24,12 +25,23 @@ import type {
 
 export interface UniversalAdapterInterface extends Interface {
   getFunction(
-    nameOrSignature: "getData" | "isAvailable" | "setData"
+    nameOrSignature:
+      | "dataVersion"
+      | "getData"
+      | "getDataWithVersion"
+      | "isAvailable"
+      | "setData"
+      | "setDataIfVersion"
   ): FunctionFragment;
 
   getEvent(nameOrSignatureOrTopic: "DataStored"): EventFragment;
 
+  encodeFunctionData(functionFragment: "dataVersion", values: [string]): string;
   encodeFunctionData(functionFragment: "getData", values: [string]): string;
+  encodeFunctionData(
+    functionFragment: "getDataWithVersion",
+    values: [string]
+  ): string;
   encodeFunctionData(
     functionFragment: "isAvailable",
     values?: undefined
@@ -38,13 +50,29 @@ export interface UniversalAdapterInterface extends Interface {
     functionFragment: "setData",
     values: [string, BytesLike]
   ): string;
+  encodeFunctionData(
+    functionFragment: "setDataIfVersion",
+    values: [string, BigNumberish, BytesLike]
+  ): string;
 
+  decodeFunctionResult(
+    functionFragment: "dataVersion",
+    data: BytesLike
+  ): Result;
   decodeFunctionResult(functionFragment: "getData", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "getDataWithVersion",
+    data: BytesLike
+  ): Result;
   decodeFunctionResult(
     functionFragment: "isAvailable",
     data: BytesLike
   ): Result;
   decodeFunctionResult(functionFragment: "setData", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "setDataIfVersion",
+    data: BytesLike
+  ): Result;
 }
 
 export namespace DataStoredEvent {
@@ -104,8 +132,16 @@ export interface UniversalAdapter extends BaseContract {
     event?: TCEvent
   ): Promise<this>;
 
+  dataVersion: TypedContractMethod<[arg0: string], [bigint], "view">;
+
   getData: TypedContractMethod<[key: string], [string], "view">;
 
+  getDataWithVersion: TypedContractMethod<
+    [key: string],
+    [[string, bigint] & { value: string; version: bigint }],
+    "view"
+  >;
+
   isAvailable: TypedContractMethod<[], [boolean], "view">;
 
   setData: TypedContractMethod<
@@ -114,19 +150,42 @@ export interface UniversalAdapter extends BaseContract {
     "nonpayable"
   >;
 
+  setDataIfVersion: TypedContractMethod<
+    [key: string, expectedVersion: BigNumberish, value: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+
   getFunction<T extends ContractMethod = ContractMethod>(
     key: string | FunctionFragment
   ): T;
 
+  getFunction(
+    nameOrSignature: "dataVersion"
+  ): TypedContractMethod<[arg0: string], [bigint], "view">;
   getFunction(
     nameOrSignature: "getData"
   ): TypedContractMethod<[key: string], [string], "view">;
+  getFunction(
+    nameOrSignature: "getDataWithVersion"
+  ): TypedContractMethod<
+    [key: string],
+    [[string, bigint] & { value: string; version: bigint }],
+    "view"
+  >;
   getFunction(
     nameOrSignature: "isAvailable"
   ): TypedContractMethod<[], [boolean], "view">;
   getFunction(
     nameOrSignature: "setData"
   ): TypedContractMethod<[key: string, value: BytesLike], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "setDataIfVersion"
+  ): TypedContractMethod<
+    [key: string, expectedVersion: BigNumberish, value: BytesLike],
+    [void],
+    "nonpayable"
+  >;
 
   getEvent(
     key: "DataStored"
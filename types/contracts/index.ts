@@ -1,4 +1,6 @@
 /* Autogenerated file. Do not edit manually. */
 /* tslint:disable */
 /* eslint-disable */
+import type * as deedRegistryFheSol from "./Deed_Registry_FHE.sol";
+export type { deedRegistryFheSol };
 export type { UniversalAdapter } from "./UniversalAdapter";
@@ -0,0 +1,928 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import {
+  Contract,
+  ContractFactory,
+  ContractTransactionResponse,
+  Interface,
+} from "ethers";
+import type { Signer, ContractDeployTransaction, ContractRunner } from "ethers";
+import type { NonPayableOverrides } from "../../../common";
+import type {
+  DeedRegistryFHE,
+  DeedRegistryFHEInterface,
+} from "../../../contracts/Deed_Registry_FHE.sol/DeedRegistryFHE";
+
+const _abi = [
+  {
+    inputs: [],
+    stateMutability: "nonpayable",
+    type: "constructor",
+  },
+  {
+    inputs: [],
+    name: "BatchClosedOrInvalid",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "CooldownActive",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "DeedNotFound",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "HandlesAlreadySavedForRequestID",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InvalidBatchId",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InvalidKMSSignatures",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InvalidProof",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NoHandleFoundForRequestID",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NotInitialized",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NotOwner",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NotProvider",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "Paused",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "RecipientNotAllowed",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "ReplayAttempt",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "StateMismatch",
+    type: "error",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+    ],
+    name: "BatchClosed",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+    ],
+    name: "BatchOpened",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+    ],
+    name: "ContractPaused",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+    ],
+    name: "ContractUnpaused",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "oldCooldown",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "newCooldown",
+        type: "uint256",
+      },
+    ],
+    name: "CooldownSecondsSet",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "propertyValueSum",
+        type: "uint256",
+      },
+    ],
+    name: "DecryptionCompleted",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "requestID",
+        type: "uint256",
+      },
+    ],
+    name: "DecryptionFulfilled",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+    ],
+    name: "DecryptionRequested",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "deedIndex",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "grantedBy",
+        type: "address",
+      },
+    ],
+    name: "DeedAccessGranted",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "provider",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "deedIndex",
+        type: "uint256",
+      },
+    ],
+    name: "DeedRegistered",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "deedIndex",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "bool",
+        name: "byRegistrar",
+        type: "bool",
+      },
+    ],
+    name: "DeedTransferred",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "previousOwner",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "newOwner",
+        type: "address",
+      },
+    ],
+    name: "OwnershipTransferred",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "provider",
+        type: "address",
+      },
+    ],
+    name: "ProviderAdded",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "provider",
+        type: "address",
+      },
+    ],
+    name: "ProviderRemoved",
+    type: "event",
+  },
+  {
+    inputs: [],
+    name: "MAX_DEED_PAGE_SIZE",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "provider",
+        type: "address",
+      },
+    ],
+    name: "addProvider",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "batchClosed",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "batchPropertyCount",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+    ],
+    name: "closeBatch",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "cooldownSeconds",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "currentBatchId",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "decryptionContexts",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        internalType: "bytes32",
+        name: "stateHash",
+        type: "bytes32",
+      },
+      {
+        internalType: "bool",
+        name: "processed",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "deedRegistrar",
+    outputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "deeds",
+    outputs: [
+      {
+        internalType: "euint32",
+        name: "encryptedOwnerIdentity",
+        type: "bytes32",
+      },
+      {
+        internalType: "euint32",
+        name: "encryptedPropertyId",
+        type: "bytes32",
+      },
+      {
+        internalType: "euint32",
+        name: "encryptedTransactionCount",
+        type: "bytes32",
+      },
+      {
+        internalType: "euint32",
+        name: "encryptedLastTransactionTimestamp",
+        type: "bytes32",
+      },
+      {
+        internalType: "euint32",
+        name: "encryptedPropertyValue",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "offset",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "limit",
+        type: "uint256",
+      },
+    ],
+    name: "getDeedPage",
+    outputs: [
+      {
+        components: [
+          {
+            internalType: "euint32",
+            name: "encryptedOwnerIdentity",
+            type: "bytes32",
+          },
+          {
+            internalType: "euint32",
+            name: "encryptedPropertyId",
+            type: "bytes32",
+          },
+          {
+            internalType: "euint32",
+            name: "encryptedTransactionCount",
+            type: "bytes32",
+          },
+          {
+            internalType: "euint32",
+            name: "encryptedLastTransactionTimestamp",
+            type: "bytes32",
+          },
+          {
+            internalType: "euint32",
+            name: "encryptedPropertyValue",
+            type: "bytes32",
+          },
+        ],
+        internalType: "struct DeedRegistryFHE.EncryptedDeed[]",
+        name: "page",
+        type: "tuple[]",
+      },
+      {
+        internalType: "address[]",
+        name: "registrars",
+        type: "address[]",
+      },
+      {
+        internalType: "uint256",
+        name: "total",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "lastDecryptionRequestTime",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "lastSubmissionTime",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+      {
+        internalType: "bytes",
+        name: "cleartexts",
+        type: "bytes",
+      },
+      {
+        internalType: "bytes",
+        name: "proof",
+        type: "bytes",
+      },
+    ],
+    name: "myCallback",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "openBatch",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "owner",
+    outputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "paused",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "protocolId",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "pure",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "providers",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "externalEuint32",
+        name: "encryptedOwnerIdentity",
+        type: "bytes32",
+      },
+      {
+        internalType: "externalEuint32",
+        name: "encryptedPropertyId",
+        type: "bytes32",
+      },
+      {
+        internalType: "externalEuint32",
+        name: "encryptedTransactionCount",
+        type: "bytes32",
+      },
+      {
+        internalType: "externalEuint32",
+        name: "encryptedLastTransactionTimestamp",
+        type: "bytes32",
+      },
+      {
+        internalType: "externalEuint32",
+        name: "encryptedPropertyValue",
+        type: "bytes32",
+      },
+      {
+        internalType: "bytes",
+        name: "inputProof",
+        type: "bytes",
+      },
+    ],
+    name: "registerDeed",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "provider",
+        type: "address",
+      },
+    ],
+    name: "removeProvider",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+    ],
+    name: "requestBatchValueSumDecryption",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "newCooldownSeconds",
+        type: "uint256",
+      },
+    ],
+    name: "setCooldownSeconds",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bool",
+        name: "_paused",
+        type: "bool",
+      },
+    ],
+    name: "setPaused",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "deedIndex",
+        type: "uint256",
+      },
+      {
+        internalType: "externalEuint32",
+        name: "encryptedCurrentOwner",
+        type: "bytes32",
+      },
+      {
+        internalType: "externalEuint32",
+        name: "encryptedNewOwner",
+        type: "bytes32",
+      },
+      {
+        internalType: "bytes",
+        name: "inputProof",
+        type: "bytes",
+      },
+      {
+        internalType: "address",
+        name: "recipient",
+        type: "address",
+      },
+    ],
+    name: "transferDeed",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "newOwner",
+        type: "address",
+      },
+    ],
+    name: "transferOwnership",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+] as const;
+
+const _bytecode =
+  "0x608060405234610183575f6060610014610187565b828152826020820152826040820152015261002d610187565b606073687820221192c5b662b25367f70076a37bc79b6c9182815273848b0066793bcc60346da1f49049357399b8d59580602083015273a02cda4ca3a71d7c46997716f4283aa851c2881291826040820152731364cbbf2cdf5032c47d8226a6f6fbd2afcdacac938491015260018060a01b0319937f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970090858254161790557f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970190848254161790557f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970290838254161790557f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649703908282541617905533905f5416175f55604051335f7f8be0079c531659141344cd1fd0a4f28419497f9722a3daafe3b4186f6b6457e08180a3611fe390816101bb8239f35b5f80fd5b60405190608082016001600160401b038111838210176101a657604052565b634e487b7160e01b5f52604160045260245ffdfe60806040526004361015610011575f80fd5b5f3560e01c806304c7a7cd146101b45780630787bc27146101af5780630a763da1146101aa578063124bd04b146101a557806316c38b3c146101a05780633d1211001461019b57806344d5c9511461019657806346e2577a146101915780635a94a0791461018c5780635c975abb146101875780637b5b11571461018257806382f291541461017d5780638a355a57146101785780638da5cb5b14610173578063936a13041461016e578063a436547614610169578063a72daf0114610164578063ae063c381461015f578063b65e89411461015a578063b8221bc414610155578063d2c411d314610150578063da1f12ab1461014b578063e0d8ad4b14610146578063e37856df14610141578063f2fde38b1461013c5763f78ec67114610137575f80fd5b61127a565b61120d565b610f9c565b610f81565b610f65565b610eb9565b610e9c565b610e56565b610e27565b610dc5565b610d8d565b610afa565b610aa5565b610a3d565b6108db565b6107c6565b6107a4565b61076c565b610701565b6106c3565b610699565b610601565b6103f5565b6102da565b61029d565b6101c7565b5f9103126101c357565b5f80fd5b346101c3575f3660031901126101c3575f546001600160a01b0316330361025f5760ff6002541661024d576101fd60065461144d565b806006555f52600760205260405f2060ff1981541690556006545f5260086020525f60408120556006547fe80225e70e6677ae32f4a6ac9fd478d50cf5e1bc489994c68c7075fe35ec5ee25f80a2005b6040516313d0ff5960e31b8152600490fd5b6040516330cd747160e01b8152600490fd5b600435906001600160a01b03821682036101c357565b60a435906001600160a01b03821682036101c357565b346101c35760203660031901126101c3576001600160a01b036102be610271565b165f526001602052602060ff60405f2054166040519015158152f35b346101c3575f3660031901126101c3576020600654604051908152f35b634e487b7160e01b5f52604160045260245ffd5b60a0810190811067ffffffffffffffff82111761032757604052565b6102f7565b67ffffffffffffffff811161032757604052565b90601f8019910116810190811067ffffffffffffffff82111761032757604052565b6040519061036f8261030b565b565b604051906060820182811067ffffffffffffffff82111761032757604052565b92919267ffffffffffffffff821161032757604051916103bb601f8201601f191660200184610340565b8294818452818301116101c3578281602093845f960137010152565b9080601f830112156101c3578160206103f293359101610391565b90565b346101c35760603660031901126101c3576004803567ffffffffffffffff6024358181116101c35761042a90369085016103d7565b906044359081116101c35761044290369085016103d7565b92610462600261045a855f52600b60205260405f2090565b015460ff1690565b6105e857610478835f52600b60205260405f2090565b549361048c855f52600860205260405f2090565b549061049782611473565b5f5b8381106105ae57506104aa906115db565b9260019360016104c2885f52600b60205260405f2090565b01540361059f5784516104d4846114cd565b0361059057506104e990848695949395611612565b5f925f925b8184106105565786867fa1cb19133026dd70867e1fbd4d02beda96e459f622fbb0326ec7dca1e35a09f9610551886105416002610533865f52600b60205260405f2090565b01805460ff19166001179055565b6040519081529081906020820190565b0390a3005b909161058684956105806105776020859860051b8701015163ffffffff1690565b63ffffffff1690565b906114e3565b94019291906104ee565b6040516309bde33960e01b8152fd5b6040516313b304fb60e21b8152fd5b80856105d56001936105c88c5f52600960205260405f2090565b905f5260205260405f2090565b01546105e182856114a5565b5201610499565b60405163dbde098160e01b8152fd5b801515036101c357565b346101c35760203660031901126101c35760043561061e816105f7565b5f546001600160a01b0316330361025f571561066857600160ff196002541617600255337f81990fd9a5c552b8e3677917d8a03c07678f0d2cb68f88b634aca2022e9bd19f5f80a2005b60ff1960025416600255337f5b65b0c1363b3003db9bcc5e1fd8805a6d6bf5bf6dc9d3431ee4494cd7d117665f80a2005b346101c35760203660031901126101c3576004355f526008602052602060405f2054604051908152f35b346101c35760403660031901126101c3576004355f52600a60205260405f206024355f52602052602060018060a01b0360405f205416604051908152f35b346101c35760203660031901126101c35761071a610271565b5f546001600160a01b0391908216330361025f5716805f52600160205260405f20600160ff198254161790557fae9c2c6481964847714ce58f65a7f6dcc41d0d8394449bacdf161b5920c4744a5f80a2005b346101c35760203660031901126101c3576001600160a01b0361078d610271565b165f526005602052602060405f2054604051908152f35b346101c3575f3660031901126101c357602060ff600254166040519015158152f35b346101c35760203660031901126101c3575f54600435906001600160a01b0316330361025f57600354816003557f2631e03375b3a2b2f48c9fecd1497fcb155d672fb020c3ab415c14bbabb18a735f80a3005b9081518082526020808093019301915f5b828110610838575050505090565b83516001600160a01b03168552938101939281019260010161082a565b9392916060916060860160608752815180915260809160808801946020809201935f915b84831061089f575050505050508161089a9186604094036020880152610819565b930152565b8551805189528085015189860152604080820151908a015280820151898301528201518883015260a09097019694830194600190920191610879565b346101c35760603660031901126101c35760043560243560443582158015610a32575b610a2057610914835f52600860205260405f2090565b549060c88111610a18575b818310610a08575f905b808211610a00575b5061093b816114fd565b9261094582611473565b945f5b838110610963576040518061095f878a8a84610855565b0390f35b60019061099961099461097e855f52600960205260405f2090565b61098884886114e3565b5f5260205260405f2090565b61156c565b6109a382896114a5565b526109ae81886114a5565b506109fa6109e16109d46109ca865f52600a60205260405f2090565b61098885896114e3565b546001600160a01b031690565b6109eb838b6114a5565b6001600160a01b039091169052565b01610948565b90505f610931565b610a1283836114f0565b90610929565b5060c861091f565b604051633b98df6560e01b8152600490fd5b5060065483116108fe565b346101c35760203660031901126101c357610a56610271565b5f546001600160a01b0391908216330361025f5716805f52600160205260405f2060ff1981541690557f1589f8555933761a3cff8aa925061be3b46e2dd43f621322ab611d300f62b1d95f80a2005b346101c3575f3660031901126101c3575f546040516001600160a01b039091168152602090f35b9181601f840112156101c35782359167ffffffffffffffff83116101c357602083818601950101116101c357565b346101c35760c03660031901126101c35760243560043560843567ffffffffffffffff81116101c357610b31903690600401610acc565b90610b3a610287565b60ff6002541661024d5783158015610d82575b8015610d66575b610d5457610b716109d4866105c8875f52600a60205260405f2090565b6001600160a01b0390811633149182610d31575b821580610d26575b610d1457610c54610551947f72fa00f02c76a2ef2b060e86dcd3ce6b9d948f93a70dd8f86c767860e7ef010796610bd08a6105c88b5f52600960205260405f2090565b91610be7610bdf368484610391565b6064356116f6565b91610bf18361181b565b8715610ce0575050610c0f610c046118d1565b915b83549083611c70565b825560028201610c2b610c228254611924565b82549084611c70565b9055610c4d610c3f63ffffffff4216611bcf565b916003840192835491611c70565b905561156c565b9183610c78610c726109d48b6105c88c5f52600a60205260405f2090565b8561199c565b610c92575b50506040519115158252509081906020820190565b610c9c338461199c565b8116610ca9575b80610c7d565b610cb29161199c565b3385857f1c8bd8ce470c34328c65159ecd97470670fc875edeefe0db588af67a47853e555f80a45f80610ca3565b610cfd610cf5610c0f93610d0e933691610391565b6044356116f6565b610d068161181b565b845490611834565b91610c06565b60405163133307bb60e21b8152600490fd5b508181161515610b8d565b335f908152600160205260409020909250610d4e905b5460ff1690565b91610b85565b604051639776be6160e01b8152600490fd5b50610d79845f52600860205260405f2090565b54851015610b54565b506006548411610b4d565b346101c35760203660031901126101c3576001600160a01b03610dae610271565b165f526004602052602060405f2054604051908152f35b346101c35760403660031901126101c3576004355f52600960205260405f206024355f5260205260a060405f20805490600181015490600281015460046003830154920154926040519485526020850152604084015260608301526080820152f35b346101c35760203660031901126101c3576004355f526007602052602060ff60405f2054166040519015158152f35b346101c35760203660031901126101c3576004355f52600b602052606060405f2080549060ff600260018301549201541690604051928352602083015215156040820152f35b346101c3575f3660031901126101c3576020600354604051908152f35b346101c35760203660031901126101c3575f54600435906001600160a01b0316330361025f5780158015610f5a575b610a2057805f52600760205260ff60405f205416610f4857610f22610f15825f52600760205260405f2090565b805460ff19166001179055565b7f0d12a96208f78b6b173d4bc5f7de1d8a9377c4e33639c8ef954056f7d35085875f80a2005b604051631e4f783760e11b8152600490fd5b506006548111610ee8565b346101c3575f3660031901126101c35760206040516127118152f35b346101c3575f3660031901126101c357602060405160c88152f35b346101c35760c03660031901126101c357600460a43567ffffffffffffffff81116101c357610fce9036908301610acc565b90335f52600160205260409160ff835f205416156111fe5760ff600254166111ef57335f5283602052825f205460035481018091116111ea5742106111db5760065480159081156111be575b506111af576110bc906110bc6110406110c29596611039368588610391565b90356116f6565b936110bc61105a611052368685610391565b6024356116f6565b6110bc611090611088611071610cf5368a89610391565b95611080610bdf368b84610391565b983691610391565b6084356116f6565b97611099610362565b9a818c5260208c019384528b0194855260608b0196875260808b0198895261181b565b5161181b565b6110cc338261199c565b6111396110e36006545f52600860205260405f2090565b918254926110f08461144d565b905561110a836105c86006545f52600960205260405f2090565b906080600491805184556020810151600185015560408101516002850155606081015160038501550151910155565b61117433611155836105c86006545f52600a60205260405f2090565b80546001600160a01b0319166001600160a01b03909216919091179055565b335f908152600460205260409020429055600654337f2613819451749b3b0cdf7bb50cc2a12cfebc600f8475ff1c7e18935098570e845f80a4005b505051631e4f783760e11b8152fd5b6111d59150610d47905f52600760205260405f2090565b5f61101a565b50505163aa9a98df60e01b8152fd5b611439565b5050516313d0ff5960e31b8152fd5b505051631a40715960e11b8152fd5b346101c35760203660031901126101c357611226610271565b5f54906001600160a01b03808316913383900361025f571680926bffffffffffffffffffffffff60a01b16175f557f8be0079c531659141344cd1fd0a4f28419497f9722a3daafe3b4186f6b6457e05f80a3005b346101c35760203660031901126101c3575f5460048035916001600160a01b0316330361142a5760ff6002541661141b57335f528060205260405f205460035481018091116111ea57421061140c5781158015611401575b80156113df575b6113d057335f908152600560205260409020429055611300825f52600860205260405f2090565b5461130a81611473565b915f5b8281106113a35750505061137d61132c611326836115db565b92611cfc565b91611335610371565b9084825260208201525f6040820152611356835f52600b60205260405f2090565b6002604091835181556020840151600182015501910151151560ff80198354169116179055565b7f81bca54e6c48c44ec959a5581796be73005cbde51156a29bae607f52e9baa16c5f80a3005b80826113bd6001936105c8895f52600960205260405f2090565b01546113c982876114a5565b520161130d565b604051633b98df6560e01b8152fd5b506113fc6113f8610d47845f52600760205260405f2090565b1590565b6112d9565b5060065482116112d2565b60405163aa9a98df60e01b8152fd5b6040516313d0ff5960e31b8152fd5b6040516330cd747160e01b8152fd5b634e487b7160e01b5f52601160045260245ffd5b5f1981146111ea5760010190565b67ffffffffffffffff81116103275760051b60200190565b9061147d8261145b565b61148a6040519182610340565b828152809261149b601f199161145b565b0190602036910137565b80518210156114b95760209160051b010190565b634e487b7160e01b5f52603260045260245ffd5b908160051b91808304602014901517156111ea57565b919082018092116111ea57565b919082039182116111ea57565b906115078261145b565b6040906115176040519182610340565b8381528093611528601f199161145b565b01915f5b8381106115395750505050565b60209082516115478161030b565b5f8152825f818301525f858301525f60608301525f608083015282860101520161152c565b906040516115798161030b565b608060048294805484526001810154602085015260028101546040850152600381015460608501520154910152565b9081518082526020808093019301915f5b8281106115c7575050505090565b8351855293810193928101926001016115b9565b60405161160c816115f860208201946040865260608301906115a8565b30604083015203601f198101835282610340565b51902090565b9190825f527f878245876662ba28a480c5ea71726db859fb50222b0a3d7cbbc21cfa336faf016020908060205260405f2054156116e457845f5260205260405f206040519182602083549182815201925f5260205f20915f905b8282106116cd5750505050918161168c61169195936113f8950382610340565b611abd565b6116bb577f1af0453083661051f6e56e5c070792320652e612154bf9af8637bb1e7655b99d5f80a2565b60405163cf6c44e960e01b8152600490fd5b83548552938401936001938401939091019061166c565b60405163d66ca67560e01b8152600490fd5b5f80516020611fb78339815191525461174e92602092909161172e90611722906001600160a01b031681565b6001600160a01b031690565b905f60405180968195829463196d0b9b60e01b8452339060048501611ba3565b03925af19081156117e7575f916117ec575b507f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497005461179790611722906001600160a01b031681565b803b156101c357604051630f8e573b60e21b815260048101839052336024820152905f908290604490829084905af180156117e7576117d4575090565b806117e16103f29261032c565b806101b9565b611ab2565b61180e915060203d602011611814575b6118068183610340565b810190611b94565b5f611760565b503d6117fc565b1561182257565b6040516321c4e35760e21b8152600490fd5b9081156118c1575b80156118af575b602090606460018060a01b035f80516020611fb78339815191525416935f604051958694859363f77f3f1d60e01b8552600485015260248401528160448401525af19081156117e7575f91611896575090565b6103f2915060203d602011611814576118068183610340565b5060206118ba611c1e565b9050611843565b90506118cb611c1e565b9061183c565b5f80516020611fb783398151915254604051639cd07acb60e01b8152600160048201525f602482018190529091602091839160449183916001600160a01b03165af19081156117e7575f91611896575090565b8015611988575b5f80516020611fb78339815191525460405163022f65e760e31b8152600481019290925260016024830152600160f81b6044830152602090829060649082905f906001600160a01b03165af19081156117e7575f91611896575090565b505f6020611994611c1e565b91505061192b565b9061036f916119ad81513090611e62565b6119fc82602083016119c0308251611e62565b6119fc82604086016119d3308251611e62565b6119fc8260608901956119e7308851611e62565b6119fc8260808c019b6119fc8d309051611e62565b51611e62565b5f5b838110611a135750505f910152565b8181015183820152602001611a04565b6020929190611a39849282815194859201611a02565b019081520190565b908160209103126101c357516103f2816105f7565b90602091611a6f81518092818552858086019101611a02565b601f01601f1916010190565b91611aa490611a966103f295936060865260608601906115a8565b908482036020860152611a56565b916040818403910152611a56565b6040513d5f823e3d90fd5b9190805191602093838501938486116111ea576040018094116111ea57611b5893611b028694611af4604051938492888401611a23565b03601f198101835282610340565b7f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649703545f90611b3a90611722906001600160a01b031681565b92604051968795869485936378542ead60e01b855260048501611a7b565b03925af19182156117e7575f92611b6e57505090565b6103f29250803d10611b8d575b611b858183610340565b810190611a41565b503d611b7b565b908160209103126101c3575190565b939261089a90600493606093875260018060a01b03166020870152608060408701526080860190611a56565b60205f91604460018060a01b035f80516020611fb78339815191525416916040519485938492639cd07acb60e01b84526004840152600460248401525af19081156117e7575f91611896575090565b5f80516020611fb783398151915254604051639cd07acb60e01b81525f600480830182905260248301529091602091839160449183916001600160a01b03165af19081156117e7575f91611896575090565b9060646020925f60018060a01b035f80516020611fb783398151915254166040519687958694637702dcff60e01b86526004860152602485015260448401525af19081156117e7575f91611896575090565b9060206103f29281815201906115a8565b9291611cec9184526060602085015260608401906115a8565b91604063124bd04b60e01b910152565b7f878245876662ba28a480c5ea71726db859fb50222b0a3d7cbbc21cfa336faf0080547f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649700549093929190611d5a90611722906001600160a01b031681565b803b156101c3575f6040518092637d6e912360e11b8252818381611d818960048301611cc2565b03925af180156117e757611e4f575b507f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970254611dc790611722906001600160a01b031681565b90813b156101c3575f6040518093633263b83b60e01b8252818381611df0898c60048401611cd3565b03925af180156117e75761036f93611e1893611e1292611e3c575b5086611edc565b5461144d565b7f878245876662ba28a480c5ea71726db859fb50222b0a3d7cbbc21cfa336faf0055565b806117e1611e499261032c565b5f611e0b565b806117e1611e5c9261032c565b5f611d90565b7f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649700546001600160a01b031691823b156101c357604051635ca4b5b160e11b815260048101929092526001600160a01b03166024820152905f908290604490829084905af180156117e757611ed35750565b61036f9061032c565b805f527f878245876662ba28a480c5ea71726db859fb50222b0a3d7cbbc21cfa336faf016020918160205260405f2054611fa4575f5260205260405f209082519267ffffffffffffffff841161032757680100000000000000008411610327578254848455808510611f7e575b506020611f5b9101925f5260205f2090565b905f5b848110611f6c575050505050565b83518382015592810192600101611f5e565b835f528460205f2091820191015b818110611f995750611f49565b5f8155600101611f8c565b604051633f06d22b60e01b8152600490fdfe9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649701a164736f6c6343000818000a";
+
+type DeedRegistryFHEConstructorParams =
+  | [signer?: Signer]
+  | ConstructorParameters<typeof ContractFactory>;
+
+const isSuperArgs = (
+  xs: DeedRegistryFHEConstructorParams
+): xs is ConstructorParameters<typeof ContractFactory> => xs.length > 1;
+
+export class DeedRegistryFHE__factory extends ContractFactory {
+  constructor(...args: DeedRegistryFHEConstructorParams) {
+    if (isSuperArgs(args)) {
+      super(...args);
+    } else {
+      super(_abi, _bytecode, args[0]);
+    }
+  }
+
+  override getDeployTransaction(
+    overrides?: NonPayableOverrides & { from?: string }
+  ): Promise<ContractDeployTransaction> {
+    return super.getDeployTransaction(overrides || {});
+  }
+  override deploy(overrides?: NonPayableOverrides & { from?: string }) {
+    return super.deploy(overrides || {}) as Promise<
+      DeedRegistryFHE & {
+        deploymentTransaction(): ContractTransactionResponse;
+      }
+    >;
+  }
+  override connect(runner: ContractRunner | null): DeedRegistryFHE__factory {
+    return super.connect(runner) as DeedRegistryFHE__factory;
+  }
+
+  static readonly bytecode = _bytecode;
+  static readonly abi = _abi;
+  static createInterface(): DeedRegistryFHEInterface {
+    return new Interface(_abi) as DeedRegistryFHEInterface;
+  }
+  static connect(
+    address: string,
+    runner?: ContractRunner | null
+  ): DeedRegistryFHE {
+    return new Contract(address, _abi, runner) as unknown as DeedRegistryFHE;
+  }
+}
@@ -0,0 +1,4 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+export { DeedRegistryFHE__factory } from "./DeedRegistryFHE__factory";
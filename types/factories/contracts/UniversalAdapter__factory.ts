@@ -15,6 +15,27 @@ import type {
 } from "../../contracts/UniversalAdapter";
 
 const _abi = [
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "key",
+        type: "string",
+      },
+      {
+        internalType: "uint256",
+        name: "expectedVersion",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "currentVersion",
+        type: "uint256",
+      },
+    ],
+    name: "VersionMismatch",
+    type: "error",
+  },
   {
     anonymous: false,
     inputs: [
@@ -40,6 +61,25 @@ const _abi = [
     name: "DataStored",
     type: "event",
   },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "",
+        type: "string",
+      },
+    ],
+    name: "dataVersion",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
   {
     inputs: [
       {
@@ -59,6 +99,30 @@ const _abi = [
     stateMutability: "view",
     type: "function",
   },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "key",
+        type: "string",
+      },
+    ],
+    name: "getDataWithVersion",
+    outputs: [
+      {
+        internalType: "bytes",
+        name: "value",
+        type: "bytes",
+      },
+      {
+        internalType: "uint256",
+        name: "version",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
   {
     inputs: [],
     name: "isAvailable",
@@ -90,10 +154,33 @@ const _abi = [
     stateMutability: "nonpayable",
     type: "function",
   },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "key",
+        type: "string",
+      },
+      {
+        internalType: "uint256",
+        name: "expectedVersion",
+        type: "uint256",
+      },
+      {
+        internalType: "bytes",
+        name: "value",
+        type: "bytes",
+      },
+    ],
+    name: "setDataIfVersion",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
 ] as const;
 
 const _bytecode =
-  "0x6080806040523461001657610468908161001b8239f35b5f80fdfe6080604081815260049182361015610015575f80fd5b5f3560e01c9081636c67bdfa146101a257508063856c71dd146101875763ae55c88814610040575f80fd5b3461018357602091826003193601126101835780359067ffffffffffffffff8211610183576100719136910161039f565b61009284845183819483830196873781015f838201520380845201826103cd565b5190205f525f8252805f2082825180925f9080546100af81610403565b808552916001918083169081156101605750600114610122575b5050506100db925094929403846103cd565b815192818492835281519182828501525f5b83811061010c5750505f83830185015250601f01601f19168101030190f35b81810183015187820187015286945082016100ed565b5f90815285812095935091905b8183106101485750879450508201016100db5f806100c9565b8554878401850152948501948694509183019161012f565b925050506100db94925060ff191682840152151560051b82010185925f806100c9565b5f80fd5b5034610183575f366003190112610183576020905160018152f35b83833461018357806003193601126101835767ffffffffffffffff908235828111610183576101d4903690850161039f565b9290602435828111610183576101ed903690870161039f565b92909560209788810190878583376102138a828a81015f838201520380845201826103cd565b5190205f525f8852845f2091841161038c57506102308154610403565b601f8111610349575b505f601f84116001146102bd577ff63f64b35cf7063a692d2f089698eda74616257a8ad9e106839e165690b1578296979284926102ad9561029e935f916102b2575b508460011b905f198660031b1c19161790555b855196868897885287019161043b565b9184830390850152339661043b565b0390a2005b90508a01358b61027b565b601f19841690825f52885f20915f5b81811061033257509261029e927ff63f64b35cf7063a692d2f089698eda74616257a8ad9e106839e165690b15782999a9592876102ad989610610319575b5050600184811b01905561028e565b8b01355f19600387901b60f8161c191690558a8061030a565b91928a60018192868d0135815501940192016102cc565b815f52875f20601f850160051c810191898610610382575b601f0160051c01905b8181106103775750610239565b5f815560010161036a565b9091508190610361565b604190634e487b7160e01b5f525260245ffd5b9181601f840112156101835782359167ffffffffffffffff8311610183576020838186019501011161018357565b90601f8019910116810190811067ffffffffffffffff8211176103ef57604052565b634e487b7160e01b5f52604160045260245ffd5b90600182811c92168015610431575b602083101461041d57565b634e487b7160e01b5f52602260045260245ffd5b91607f1691610412565b908060209392818452848401375f828201840152601f01601f191601019056fea164736f6c6343000818000a";
+  "0x6080806040523461001657610669908161001b8239f35b5f80fdfe6080604081815260049182361015610015575f80fd5b5f3560e01c908163016150281461026a575080635913c43a146101e85780636c67bdfa1461019657806375b71c4b146100e6578063856c71dd146100cb5763ae55c88814610061575f80fd5b346100c75760203660031901126100c757813567ffffffffffffffff81116100c75760206100986100c3946100b09336910161036e565b9190828551938492833781015f8152030190206103f9565b905191829160208352602083019061039c565b0390f35b5f80fd5b50346100c7575f3660031901126100c7576020905160018152f35b5090346100c75760603660031901126100c75767ffffffffffffffff81358181116100c757610118903690840161036e565b90602435926044359081116100c757610134903690860161036e565b949093865184848237602081868101600181520301902054968188036101635750505061016194506104bb565b005b610187606094868a935196879663f7f1b1a360e01b8852870152606486019161049b565b91602484015260448301520390fd5b50346100c7573660031901126100c75767ffffffffffffffff81358181116100c7576101c5903690840161036e565b916024359081116100c757610161936101e09136910161036e565b9290916104bb565b50346100c75760203660031901126100c757813567ffffffffffffffff81116100c75761024c9261021b9136910161036e565b602083949294518286823781818481015f8152030190209482855193849283378101600181520301902054926103f9565b91610260825193838594855284019061039c565b9060208301520390f35b8284346100c757602092836003193601126100c75781359067ffffffffffffffff928383116100c757366023840112156100c7578281013593841161030457506102bd601f8401601f1916860182610317565b8281528481019036602485850101116100c7575f86856102f2966024839701863783010152845193849283925192839161034d565b81016001815203019020549051908152f35b604190634e487b7160e01b5f525260245ffd5b90601f8019910116810190811067ffffffffffffffff82111761033957604052565b634e487b7160e01b5f52604160045260245ffd5b5f5b83811061035e5750505f910152565b818101518382015260200161034f565b9181601f840112156100c75782359167ffffffffffffffff83116100c757602083818601950101116100c757565b906020916103b58151809281855285808601910161034d565b601f01601f1916010190565b90600182811c921680156103ef575b60208310146103db57565b634e487b7160e01b5f52602260045260245ffd5b91607f16916103d0565b9060405191825f825461040b816103c1565b908184526020946001916001811690815f14610479575060011461043b575b50505061043992500383610317565b565b5f90815285812095935091905b81831061046157505061043993508201015f808061042a565b85548884018501529485019487945091830191610448565b9250505061043994925060ff191682840152151560051b8201015f808061042a565b908060209392818452848401375f828201840152601f01601f1916010190565b909291926040519281838537838281015f815260209586910301902067ffffffffffffffff8211610339576104f081546103c1565b601f8111610619575b50815f601f82116001146105b6575f916105ab575b508260011b905f198460031b1c19161790555b6040518284823784818481016001815203019020938454915f198314610597577ff63f64b35cf7063a692d2f089698eda74616257a8ad9e106839e165690b157829560016105929401905561058360405195869560408752604087019161049b565b9184830390850152339661049b565b0390a2565b634e487b7160e01b5f52601160045260245ffd5b90508601355f61050e565b5f83815287812092508490601f198216905b89828210610600575050106105e7575b5050600182811b019055610521565b8701355f19600385901b60f8161c191690555f806105d8565b8b850135865560019095019493840193879350016105c8565b815f52855f20601f840160051c810191878510610652575b601f0160051c01905b81811061064757506104f9565b5f815560010161063a565b909150819061063156fea164736f6c6343000818000a";
 
 type UniversalAdapterConstructorParams =
   | [signer?: Signer]
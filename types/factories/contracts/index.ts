@@ -1,4 +1,5 @@
 /* Autogenerated file. Do not edit manually. */
 /* tslint:disable */
 /* eslint-disable */
+export * as deedRegistryFheSol from "./Deed_Registry_FHE.sol";
 export { UniversalAdapter__factory } from "./UniversalAdapter__factory";